@@ -1,7 +1,25 @@
 export * from './mortgage/amortization';
+export * from './mortgage/refinance';
+export * from './mortgage/apr';
+export * from './mortgage/affordability';
 export * from './retirement/savings';
+export * from './retirement/solvers';
+export * from './retirement/rmd';
+export * from './retirement/jointLifeTable';
+export * from './retirement/contributionLimits';
+export * from './retirement/fees';
+export * from './retirement/glidePath';
+export * from './retirement/federalTax';
+export * from './retirement/taxBuckets';
+export * from './retirement/monteCarlo';
+export * from './retirement/historicalReturns';
+export * from './retirement/backtest';
 export * from './pension/fers';
 export * from './pension/military';
 export * from './socialSecurity/benefit';
+export * from './socialSecurity/parameters';
+export * from './socialSecurity/household';
+export * from './socialSecurity/optimizer';
 export * from './college/tuition';
-export * from './real-estate/property';
\ No newline at end of file
+export * from './real-estate/property';
+export * from './real-estate/rentVsBuy';
@@ -0,0 +1,162 @@
+import { calculateMonthlyPayment } from './amortization';
+
+// --- Types ---
+export type DebtToIncomePreset = 'conventional' | 'fha' | 'va';
+
+// Percent of gross monthly income. frontEnd caps housing costs; backEnd caps housing costs plus other debts.
+export interface DebtToIncomeLimits {
+  frontEnd?: number;
+  backEnd: number;
+}
+
+export const DEBT_TO_INCOME_PRESETS: Record<DebtToIncomePreset, DebtToIncomeLimits> = {
+  conventional: { frontEnd: 28, backEnd: 36 },
+  fha: { frontEnd: 31, backEnd: 43 },
+  va: { backEnd: 41 },   // VA underwrites on the back-end ratio only
+};
+
+export interface AffordabilityInput {
+  annualIncome: number;        // gross
+  monthlyDebts: number;
+  downPayment: number;
+  annualRate: number;
+  termYears: number;
+  propertyTaxRate: number;     // annual percent of the home price
+  annualInsurance: number;
+  monthlyHoaFee?: number;
+  pmiRate?: number;            // annual percent of the loan amount, charged when the down payment is under 20%
+  limits: DebtToIncomePreset | DebtToIncomeLimits;
+}
+
+export interface AffordabilityResult {
+  maxHomePrice: number;
+  maxLoanAmount: number;
+  maxHousingPayment: number;
+  bindingConstraint: 'frontEnd' | 'backEnd';
+  monthlyPrincipalAndInterest: number;
+  monthlyPropertyTax: number;
+  monthlyInsurance: number;
+  monthlyHoaFee: number;
+  monthlyPmi: number;
+  frontEndRatio: number;
+  backEndRatio: number;
+  limits: DebtToIncomeLimits;
+}
+
+export interface AffordabilityValidationError {
+  field: keyof AffordabilityInput;
+  message: string;
+}
+
+export function validateAffordabilityInput(
+  input: AffordabilityInput
+): AffordabilityValidationError[] {
+  const errors: AffordabilityValidationError[] = [];
+  const {
+    annualIncome,
+    monthlyDebts,
+    downPayment,
+    annualRate,
+    termYears,
+    propertyTaxRate,
+    annualInsurance,
+    monthlyHoaFee = 0,
+    pmiRate = 0,
+    limits,
+  } = input;
+
+  if (annualIncome <= 0) errors.push({ field: "annualIncome", message: "Annual income must be greater than 0" });
+  if (monthlyDebts < 0) errors.push({ field: "monthlyDebts", message: "Monthly debts cannot be negative" });
+  if (downPayment < 0) errors.push({ field: "downPayment", message: "Down payment cannot be negative" });
+  if (annualRate < 0) errors.push({ field: "annualRate", message: "Annual interest rate cannot be negative" });
+  if (termYears <= 0) errors.push({ field: "termYears", message: "Loan term must be greater than 0" });
+  if (propertyTaxRate < 0) errors.push({ field: "propertyTaxRate", message: "Property tax rate cannot be negative" });
+  if (annualInsurance < 0) errors.push({ field: "annualInsurance", message: "Insurance cannot be negative" });
+  if (monthlyHoaFee < 0) errors.push({ field: "monthlyHoaFee", message: "HOA fee cannot be negative" });
+  if (pmiRate < 0) errors.push({ field: "pmiRate", message: "PMI rate cannot be negative" });
+
+  if (typeof limits !== 'string') {
+    if (limits.backEnd <= 0 || limits.backEnd > 100) errors.push({ field: "limits", message: "Back-end limit must be between 0 and 100%" });
+    if (limits.frontEnd !== undefined && (limits.frontEnd <= 0 || limits.frontEnd > 100)) errors.push({ field: "limits", message: "Front-end limit must be between 0 and 100%" });
+  }
+
+  return errors;
+}
+
+// --- Main Calculation ---
+// Housing payment = P&I + property tax + insurance + HOA (+ PMI), all linear in the home price,
+// so the maximum price is solved directly from the tighter of the two DTI limits.
+export function calculateHomeAffordability(
+  input: AffordabilityInput
+): AffordabilityResult {
+  const {
+    annualIncome,
+    monthlyDebts,
+    downPayment,
+    annualRate,
+    termYears,
+    propertyTaxRate,
+    annualInsurance,
+    monthlyHoaFee = 0,
+    pmiRate = 0,
+  } = input;
+
+  const errors = validateAffordabilityInput(input);
+  if (errors.length > 0) {
+    const err = new Error("Home Affordability input validation failed");
+    (err as any).validationErrors = errors;
+    throw err;
+  }
+
+  const limits = typeof input.limits === 'string' ? DEBT_TO_INCOME_PRESETS[input.limits] : input.limits;
+  const monthlyIncome = annualIncome / 12;
+
+  const frontEndPayment = limits.frontEnd !== undefined ? monthlyIncome * limits.frontEnd / 100 : Infinity;
+  const backEndPayment = monthlyIncome * limits.backEnd / 100 - monthlyDebts;
+  const bindingConstraint = frontEndPayment <= backEndPayment ? 'frontEnd' : 'backEnd';
+  const maxHousingPayment = Math.max(Math.min(frontEndPayment, backEndPayment), 0);
+
+  const paymentPerDollar = calculateMonthlyPayment(1, annualRate, termYears * 12);
+  const taxPerDollar = propertyTaxRate / 100 / 12;
+  const pmiPerDollar = pmiRate / 100 / 12;
+  const fixedCosts = annualInsurance / 12 + monthlyHoaFee;
+
+  // price = (H - fixed + downPayment * (P&I + PMI per dollar)) / (P&I + PMI + tax per dollar)
+  const solvePrice = (pmi: number) =>
+    (maxHousingPayment - fixedCosts + downPayment * (paymentPerDollar + pmi)) /
+    (paymentPerDollar + pmi + taxPerDollar);
+
+  let maxHomePrice = solvePrice(pmiPerDollar);
+  let hasPmi = pmiPerDollar > 0;
+
+  // PMI only applies above 80% LTV; without it the buyer may afford more, up to exactly 80% LTV
+  if (hasPmi && downPayment >= maxHomePrice * 0.2) {
+    maxHomePrice = Math.min(solvePrice(0), downPayment / 0.2);
+    hasPmi = false;
+  }
+
+  // Not enough room for any loan: the buyer can still pay cash up to the down payment
+  if (maxHomePrice < downPayment) maxHomePrice = downPayment;
+
+  const maxLoanAmount = Math.max(maxHomePrice - downPayment, 0);
+  const monthlyPrincipalAndInterest = maxLoanAmount * paymentPerDollar;
+  const monthlyPropertyTax = maxHomePrice * taxPerDollar;
+  const monthlyInsurance = annualInsurance / 12;
+  const monthlyPmi = hasPmi ? maxLoanAmount * pmiPerDollar : 0;
+  const housingPayment = monthlyPrincipalAndInterest + monthlyPropertyTax + monthlyInsurance + monthlyHoaFee + monthlyPmi;
+
+  return {
+    maxHomePrice,
+    maxLoanAmount,
+    maxHousingPayment,
+    bindingConstraint,
+    monthlyPrincipalAndInterest,
+    monthlyPropertyTax,
+    monthlyInsurance,
+    monthlyHoaFee,
+    monthlyPmi,
+    frontEndRatio: (housingPayment / monthlyIncome) * 100,
+    backEndRatio: ((housingPayment + monthlyDebts) / monthlyIncome) * 100,
+    limits,
+  };
+}
@@ -3,28 +3,143 @@ export interface MortgageAmortizationInput {
   loanAmount: number;
   annualRate: number;
   termYears: number;
-  startDate?: Date;
-  extraPayment?: number;
+  startDate?: Date | string;           // closing date; strings are ISO 'YYYY-MM-DD'
+  firstPaymentDate?: Date | string;    // defaults to the 1st of the month after closing (14 or 7 days after for biweekly/weekly)
+  dateFormatter?: (date: Date) => string;
+  extraPayment?: number;               // added to every scheduled payment
+  prepayments?: Prepayment[];
+  adjustableRate?: AdjustableRateOptions;
+  paymentFrequency?: PaymentFrequency;
+  homeValue?: number;
+  pmiRate?: number;                   // annual percent of the original loan amount
+  requestPmiRemovalAt80?: boolean;    // borrower requests removal once the actual balance reaches 80% LTV
+  escrow?: EscrowOptions;
+  loanStructure?: LoanStructureOptions;
+}
+
+export interface LoanStructureOptions {
+  interestOnlyMonths?: number;   // interest-only payments, then amortizing over the rest of the term
+  balloonMonth?: number;         // remaining balance is due in this loan month, e.g. 84 for a 7-year balloon
+  recasts?: LoanRecast[];
+}
+
+// Lump sum paid in loan month `month`, after which the payment is re-amortized over the remaining term
+export interface LoanRecast {
+  month: number;
+  lumpSum?: number;
+}
+
+// Escrowed costs; each amount grows by its increase rate (percent) every loan year
+export interface EscrowOptions {
+  annualPropertyTax?: number;
+  propertyTaxIncreaseRate?: number;
+  annualInsurance?: number;
+  insuranceIncreaseRate?: number;
+  monthlyHoaFee?: number;
+  hoaFeeIncreaseRate?: number;
+}
+
+// acceleratedBiweekly pays half the monthly payment every two weeks (26 half-payments = 13 monthly payments a year)
+export type PaymentFrequency = 'monthly' | 'semiMonthly' | 'biweekly' | 'acceleratedBiweekly' | 'weekly';
+
+export type Prepayment = LumpSumPrepayment | RecurringPrepayment | AnnualPrepayment;
+
+// Prepayments are scheduled by loan month and applied with the first payment of that month.
+
+// One-time payment, applied in loan month `month` or the month of `date`
+export interface LumpSumPrepayment {
+  type: 'lumpSum';
+  amount: number;
+  month?: number;
+  date?: Date | string;
+}
+
+// Extra applied every `everyMonths` months from startMonth through endMonth (loan months)
+export interface RecurringPrepayment {
+  type: 'recurring';
+  amount: number;
+  startMonth: number;
+  endMonth?: number;
+  everyMonths?: number;
+  growthRate?: number;   // percent per year
+}
+
+// Extra applied once a year with the payment in calendarMonth (1-12), e.g. a yearly bonus
+export interface AnnualPrepayment {
+  type: 'annual';
+  amount: number;
+  calendarMonth: number;
+  startYear?: number;
+  endYear?: number;
+  growthRate?: number;   // percent per year
+}
+
+// ARM terms. annualRate on the input is the initial (start) rate; caps and floors are in percentage points.
+export interface AdjustableRateOptions {
+  initialFixedMonths: number;          // e.g. 60 for a 5/1 ARM, 84 for a 7/6 ARM
+  adjustmentFrequencyMonths: number;   // e.g. 12 for a 5/1 ARM, 6 for a 7/6 ARM
+  index: number | number[];            // constant index rate, or one value per adjustment (last value repeats)
+  margin: number;
+  initialAdjustmentCap: number;        // max increase at the first adjustment
+  periodicAdjustmentCap: number;       // max increase at each later adjustment
+  lifetimeCap: number;                 // max increase over the initial rate
+  initialAdjustmentFloor?: number;     // max decrease at the first adjustment (defaults to initialAdjustmentCap)
+  periodicAdjustmentFloor?: number;    // max decrease at each later adjustment (defaults to periodicAdjustmentCap)
+  lifetimeFloor?: number;              // lowest rate allowed (defaults to margin)
 }
 
 export interface AmortizationRow {
   year: number;
-  month: number;
-  date: string;
+  month: number;      // loan month the payment falls in
+  period: number;     // payment number
+  date?: string;      // ISO 'YYYY-MM-DD', when startDate or firstPaymentDate is given
+  formattedDate?: string;   // dateFormatter output, when one is given
+  rate: number;
   payment: number;
   principal: number;
+  extraPrincipal: number;
   interest: number;
   balance: number;
+  pmi: number;
+  escrow: number;
+  totalPayment: number;   // principal + interest + pmi + escrow
+  ltv?: number;           // percent of homeValue, after this payment
+  isInterestOnly?: boolean;
+  isBalloonPayment?: boolean;
+  paymentChanged?: boolean;   // scheduled principal and interest differs from the previous payment
 }
 
 export interface YearlyAmortizationRow {
   year: number;
   month: number;   
-  date: string;    
+  date?: string;    
   payment: number;
   principal: number;
   interest: number;
   balance: number;
+  pmi: number;
+  escrow: number;
+  totalPayment: number;
+}
+
+export interface AmortizationSummary {
+  months: number;
+  totalInterest: number;
+  totalPaid: number;
+}
+
+export interface PrepaymentSavings {
+  prepayment: Prepayment;
+  interestSaved: number;
+  monthsSaved: number;
+}
+
+export interface PrepaymentSavingsResult {
+  baseline: AmortizationSummary;
+  withPrepayments: AmortizationSummary;
+  interestSaved: number;
+  monthsSaved: number;
+  prepayments: PrepaymentSavings[];
 }
 
 export interface MortgageValidationError {
@@ -37,12 +152,71 @@ export function validateMortgageInput(
 ): MortgageValidationError[] {
   const errors: MortgageValidationError[] = [];
 
-  const { loanAmount, annualRate, termYears, extraPayment } = input;
+  const { loanAmount, annualRate, termYears, startDate, firstPaymentDate, dateFormatter, extraPayment, prepayments = [], adjustableRate, homeValue, pmiRate, escrow = {}, loanStructure } = input;
+  const hasDates = startDate !== undefined || firstPaymentDate !== undefined;
 
   if (loanAmount <= 0) errors.push({ field: "loanAmount", message: "Loan amount must be greater than 0" });
   if (annualRate < 0) errors.push({ field: "annualRate", message: "Annual interest rate cannot be negative" });
   if (termYears <= 0) errors.push({ field: "termYears", message: "Loan term must be greater than 0" });
   if (extraPayment !== undefined && extraPayment < 0) errors.push({ field: "extraPayment", message: "Extra payment cannot be negative" });
+  if (startDate !== undefined && !isValidDate(startDate)) errors.push({ field: "startDate", message: "Start date must be a valid date (YYYY-MM-DD)" });
+  if (firstPaymentDate !== undefined && !isValidDate(firstPaymentDate)) errors.push({ field: "firstPaymentDate", message: "First payment date must be a valid date (YYYY-MM-DD)" });
+  if (startDate !== undefined && firstPaymentDate !== undefined && isValidDate(startDate) && isValidDate(firstPaymentDate) &&
+      formatIsoDate(toCalendarDate(firstPaymentDate)) <= formatIsoDate(toCalendarDate(startDate))) {
+    errors.push({ field: "firstPaymentDate", message: "First payment date must be after the start date" });
+  }
+  if (dateFormatter && !hasDates) errors.push({ field: "dateFormatter", message: "A start date or first payment date is required to format payment dates" });
+
+  if (homeValue !== undefined && homeValue <= 0) errors.push({ field: "homeValue", message: "Home value must be greater than 0" });
+  if (pmiRate !== undefined && pmiRate < 0) errors.push({ field: "pmiRate", message: "PMI rate cannot be negative" });
+  if (pmiRate !== undefined && pmiRate > 0 && homeValue === undefined) errors.push({ field: "homeValue", message: "Home value is required to calculate PMI" });
+  if (Object.values(escrow).some((amount) => amount < 0)) errors.push({ field: "escrow", message: "Escrow amounts and increase rates cannot be negative" });
+
+  prepayments.forEach((prepayment, i) => {
+    if (prepayment.amount < 0) errors.push({ field: "prepayments", message: `Prepayment ${i + 1} amount cannot be negative` });
+    if (prepayment.type === 'lumpSum' && prepayment.month === undefined && prepayment.date === undefined) errors.push({ field: "prepayments", message: `Prepayment ${i + 1} needs a month or a date` });
+    if (prepayment.type === 'lumpSum' && prepayment.date !== undefined && !isValidDate(prepayment.date)) errors.push({ field: "prepayments", message: `Prepayment ${i + 1} date must be a valid date (YYYY-MM-DD)` });
+    if (prepayment.type === 'lumpSum' && prepayment.month === undefined && prepayment.date !== undefined && !hasDates) errors.push({ field: "prepayments", message: `Prepayment ${i + 1} date needs a start date or first payment date` });
+    if (prepayment.type === 'lumpSum' && prepayment.month !== undefined && prepayment.month < 1) errors.push({ field: "prepayments", message: `Prepayment ${i + 1} month must be at least 1` });
+    if (prepayment.type === 'recurring' && prepayment.startMonth < 1) errors.push({ field: "prepayments", message: `Prepayment ${i + 1} start month must be at least 1` });
+    if (prepayment.type === 'recurring' && prepayment.endMonth !== undefined && prepayment.endMonth < prepayment.startMonth) errors.push({ field: "prepayments", message: `Prepayment ${i + 1} end month cannot be before start month` });
+    if (prepayment.type === 'recurring' && prepayment.everyMonths !== undefined && prepayment.everyMonths < 1) errors.push({ field: "prepayments", message: `Prepayment ${i + 1} frequency must be at least 1 month` });
+    if (prepayment.type === 'annual' && (prepayment.calendarMonth < 1 || prepayment.calendarMonth > 12)) errors.push({ field: "prepayments", message: `Prepayment ${i + 1} calendar month must be between 1 and 12` });
+    if (prepayment.type === 'annual' && !hasDates) errors.push({ field: "prepayments", message: `Prepayment ${i + 1} needs a start date or first payment date` });
+  });
+
+  if (loanStructure) {
+    const { interestOnlyMonths = 0, balloonMonth, recasts = [] } = loanStructure;
+    const totalMonths = termYears * 12;
+
+    if (interestOnlyMonths < 0 || interestOnlyMonths >= totalMonths) errors.push({ field: "loanStructure", message: "Interest-only period must be shorter than the loan term" });
+    if (balloonMonth !== undefined && (balloonMonth < 1 || balloonMonth > totalMonths)) errors.push({ field: "loanStructure", message: "Balloon month must fall within the loan term" });
+    if (recasts.some((recast) => recast.month < 1 || recast.month > totalMonths)) errors.push({ field: "loanStructure", message: "Recast month must fall within the loan term" });
+    if (recasts.some((recast) => (recast.lumpSum ?? 0) < 0)) errors.push({ field: "loanStructure", message: "Recast lump sum cannot be negative" });
+  }
+
+  if (adjustableRate) {
+    const {
+      initialFixedMonths,
+      adjustmentFrequencyMonths,
+      index,
+      margin,
+      initialAdjustmentCap,
+      periodicAdjustmentCap,
+      lifetimeCap,
+      initialAdjustmentFloor,
+      periodicAdjustmentFloor,
+      lifetimeFloor,
+    } = adjustableRate;
+    const caps = [initialAdjustmentCap, periodicAdjustmentCap, lifetimeCap, initialAdjustmentFloor, periodicAdjustmentFloor];
+
+    if (initialFixedMonths < 1 || initialFixedMonths >= termYears * 12) errors.push({ field: "adjustableRate", message: "Initial fixed period must be at least 1 month and shorter than the loan term" });
+    if (adjustmentFrequencyMonths < 1) errors.push({ field: "adjustableRate", message: "Adjustment frequency must be at least 1 month" });
+    if (Array.isArray(index) && index.length === 0) errors.push({ field: "adjustableRate", message: "Index rate series cannot be empty" });
+    if (margin < 0) errors.push({ field: "adjustableRate", message: "Margin cannot be negative" });
+    if (caps.some((cap) => cap !== undefined && cap < 0)) errors.push({ field: "adjustableRate", message: "Rate caps and floors cannot be negative" });
+    if (lifetimeFloor !== undefined && lifetimeFloor < 0) errors.push({ field: "adjustableRate", message: "Lifetime floor cannot be negative" });
+  }
 
   return errors;
 }
@@ -55,9 +229,20 @@ export function calculateMortgageAmortization(
     loanAmount,
     annualRate,
     termYears,
-    startDate = new Date(),
+    startDate,
+    firstPaymentDate,
+    dateFormatter,
     extraPayment = 0,
+    prepayments = [],
+    adjustableRate,
+    paymentFrequency = 'monthly',
+    homeValue,
+    pmiRate = 0,
+    requestPmiRemovalAt80 = false,
+    escrow = {},
+    loanStructure = {},
   } = input;
+  const { interestOnlyMonths = 0, balloonMonth, recasts = [] } = loanStructure;
 
   const errors = validateMortgageInput(input);
         
@@ -67,73 +252,425 @@ export function calculateMortgageAmortization(
     throw err;
   }
 
-  const monthlyRate = annualRate / 100 / 12;
   const totalMonths = termYears * 12;
+  const periodsPerYear = PAYMENTS_PER_YEAR[paymentFrequency];
+  // Without a start or first payment date the schedule is undated
+  const firstPayment = firstPaymentDate !== undefined
+    ? toCalendarDate(firstPaymentDate)
+    : startDate !== undefined
+      ? calculateDefaultFirstPayment(toCalendarDate(startDate), paymentFrequency)
+      : undefined;
+  const totalPeriods = termYears * periodsPerYear;
 
-  const basePayment =
-    monthlyRate === 0
-      ? loanAmount / totalMonths
-      : loanAmount *
-        (monthlyRate * Math.pow(1 + monthlyRate, totalMonths)) /
-        (Math.pow(1 + monthlyRate, totalMonths) - 1);
+  let rate = annualRate;
+  let basePayment = calculateFrequencyPayment(loanAmount, rate, totalPeriods, totalMonths, paymentFrequency);
 
   let balance = loanAmount;
+  let previousMonth = 0;
+  let previousScheduledPayment: number | undefined;
+  let hasPmi = pmiRate > 0 && homeValue !== undefined;
+  // Balances of the original schedule: the same loan without extra payments, prepayments or recasts
+  const scheduledBalances = hasPmi
+    ? calculateMortgageAmortization({
+        ...input,
+        extraPayment: 0,
+        prepayments: [],
+        pmiRate: 0,
+        loanStructure: { ...loanStructure, recasts: [] },
+      }).map((row) => row.balance)
+    : [];
   const data: AmortizationRow[] = [];
 
-  for (let i = 1; balance > 0.01 && i <= totalMonths; i++) {
-    const interest = balance * monthlyRate;
-    const principal = Math.min(basePayment + extraPayment - interest, balance);
+  for (let i = 1; balance > 0.01 && i <= totalPeriods; i++) {
+    const month = Math.floor(((i - 1) * 12) / periodsPerYear) + 1;
+    const isFirstPaymentOfMonth = month !== previousMonth;
+    previousMonth = month;
+
+    // ARM reset: new rate from index + margin, payment re-amortized over the remaining term
+    if (isFirstPaymentOfMonth && adjustableRate && month > adjustableRate.initialFixedMonths &&
+        (month - adjustableRate.initialFixedMonths - 1) % adjustableRate.adjustmentFrequencyMonths === 0) {
+      const adjustment = (month - adjustableRate.initialFixedMonths - 1) / adjustableRate.adjustmentFrequencyMonths;
+      rate = calculateAdjustedRate(adjustableRate, annualRate, rate, adjustment);
+      basePayment = calculateFrequencyPayment(balance, rate, totalPeriods - i + 1, totalMonths - month + 1, paymentFrequency);
+    }
+
+    // Interest-only period over: amortize the balance over the remaining term
+    const isInterestOnly = month <= interestOnlyMonths;
+    if (isFirstPaymentOfMonth && interestOnlyMonths > 0 && month === interestOnlyMonths + 1) {
+      basePayment = calculateFrequencyPayment(balance, rate, totalPeriods - i + 1, totalMonths - month + 1, paymentFrequency);
+    }
+
+    // PMI ends automatically once the original schedule reaches 78% of the original home value, on
+    // request once the actual balance reaches 80%, and at the loan midpoint at the latest
+    const scheduledBalance = i === 1 ? loanAmount : scheduledBalances[i - 2] ?? 0;
+    if (hasPmi && homeValue !== undefined &&
+        ((scheduledBalance / homeValue) * 100 <= 78 ||
+         (requestPmiRemovalAt80 && (balance / homeValue) * 100 <= 80) ||
+         month > totalMonths / 2)) {
+      hasPmi = false;
+    }
+    const pmi = hasPmi ? (loanAmount * pmiRate) / 100 / periodsPerYear : 0;
+    const escrowPayment = (calculateMonthlyEscrow(escrow, Math.ceil(month / 12)) * 12) / periodsPerYear;
+
+    const paymentDate = firstPayment && calculatePaymentDate(firstPayment, i, paymentFrequency);
+    const monthDate = firstPayment && addMonths(firstPayment, month - 1, 1);
+
+    const interest = balance * (rate / 100 / periodsPerYear);
+    const scheduledPayment = isInterestOnly ? interest : basePayment;
+    const scheduledPrincipal = Math.min(scheduledPayment - interest, balance);
+    const recastsThisMonth = isFirstPaymentOfMonth ? recasts.filter((recast) => recast.month === month) : [];
+    const scheduledExtra = extraPayment +
+      (isFirstPaymentOfMonth ? calculateScheduledPrepayment(prepayments, month, firstPayment, monthDate) : 0) +
+      recastsThisMonth.reduce((sum, recast) => sum + (recast.lumpSum ?? 0), 0);
+    const extraPrincipal = Math.min(scheduledExtra, balance - scheduledPrincipal);
+
+    // Balloon: whatever is left is due with the last payment of the balloon month
+    const isLastPaymentOfMonth = Math.floor((i * 12) / periodsPerYear) + 1 !== month;
+    const isBalloonPayment = balloonMonth === month && isLastPaymentOfMonth &&
+      balance - scheduledPrincipal - extraPrincipal > 0.01;
+    const balloonPrincipal = isBalloonPayment ? balance - scheduledPrincipal - extraPrincipal : 0;
+
+    const principal = scheduledPrincipal + extraPrincipal + balloonPrincipal;
     balance -= principal;
 
-    const paymentDate = new Date(
-      startDate.getFullYear(),
-      startDate.getMonth() + i
-    );
+    // Recast: same rate and maturity, lower payment from the next payment on
+    if (recastsThisMonth.length > 0 && !isInterestOnly) {
+      basePayment = calculateFrequencyPayment(balance, rate, totalPeriods - i, totalMonths - month, paymentFrequency);
+    }
+
+    const paymentChanged = previousScheduledPayment !== undefined &&
+      Math.abs(scheduledPayment - previousScheduledPayment) > 0.005;
+    previousScheduledPayment = scheduledPayment;
 
     data.push({
-      year: Math.ceil(i / 12),
-      month: i,
-      date: paymentDate.toLocaleDateString(),
+      year: Math.ceil(month / 12),
+      month,
+      period: i,
+      ...(paymentDate && { date: formatIsoDate(paymentDate) }),
+      ...(paymentDate && dateFormatter && { formattedDate: dateFormatter(new Date(paymentDate.year, paymentDate.month, paymentDate.day)) }),
+      rate,
       payment: principal + interest,
       principal,
+      extraPrincipal,
       interest,
       balance: Math.max(balance, 0),
+      pmi,
+      escrow: escrowPayment,
+      totalPayment: principal + interest + pmi + escrowPayment,
+      ...(homeValue !== undefined && { ltv: (Math.max(balance, 0) / homeValue) * 100 }),
+      ...(isInterestOnly && { isInterestOnly }),
+      ...(isBalloonPayment && { isBalloonPayment }),
+      ...(paymentChanged && { paymentChanged }),
     });
   }
 
   return data;
 }
 
+// --- Pure calculation: interest and time saved by prepayments ---
+// Each prepayment is measured on its own against the baseline (the same loan without any prepayments).
+export function calculatePrepaymentSavings(
+  input: MortgageAmortizationInput
+): PrepaymentSavingsResult {
+  const { prepayments = [] } = input;
+
+  const baseline = summarizeAmortization(calculateMortgageAmortization({ ...input, prepayments: [] }));
+  const withPrepayments = summarizeAmortization(calculateMortgageAmortization(input));
+
+  return {
+    baseline,
+    withPrepayments,
+    interestSaved: baseline.totalInterest - withPrepayments.totalInterest,
+    monthsSaved: baseline.months - withPrepayments.months,
+    prepayments: prepayments.map((prepayment) => {
+      const summary = summarizeAmortization(calculateMortgageAmortization({ ...input, prepayments: [prepayment] }));
+
+      return {
+        prepayment,
+        interestSaved: baseline.totalInterest - summary.totalInterest,
+        monthsSaved: baseline.months - summary.months,
+      };
+    }),
+  };
+}
+
+// Loan month of the first payment without PMI, or null if PMI is never charged or never removed
+export function findPmiEndMonth(rows: AmortizationRow[]): number | null {
+  const lastPmiIndex = rows.map((row) => row.pmi > 0).lastIndexOf(true);
+  if (lastPmiIndex === -1) return null;
+
+  return rows[lastPmiIndex + 1]?.month ?? null;
+}
+
+export function summarizeAmortization(rows: AmortizationRow[]): AmortizationSummary {
+  return {
+    months: rows[rows.length - 1]?.month ?? 0,
+    totalInterest: rows.reduce((sum, row) => sum + row.interest, 0),
+    totalPaid: rows.reduce((sum, row) => sum + row.payment, 0),
+  };
+}
+
+// --- Pure calculation: level payment for a fully amortizing loan ---
+export function calculateMonthlyPayment(
+  principal: number,
+  annualRate: number,
+  months: number
+): number {
+  return calculatePeriodicPayment(principal, annualRate, months, 12);
+}
+
+export function calculatePeriodicPayment(
+  principal: number,
+  annualRate: number,
+  periods: number,
+  periodsPerYear: number
+): number {
+  const periodicRate = annualRate / 100 / periodsPerYear;
+
+  return periodicRate === 0
+    ? principal / periods
+    : principal *
+      (periodicRate * Math.pow(1 + periodicRate, periods)) /
+      (Math.pow(1 + periodicRate, periods) - 1);
+}
+
 // --- Pure calculation: yearly aggregation ---
+// 'loanYear' groups into loan year #1, #2, etc.; 'calendarYear' by the year of each payment date.
 export function groupByYear(
-  rows: AmortizationRow[]
+  rows: AmortizationRow[],
+  groupBy: 'loanYear' | 'calendarYear' = 'loanYear'
 ): YearlyAmortizationRow[] {
   const yearlyMap: Record<number, YearlyAmortizationRow> = {};
 
+  if (groupBy === 'calendarYear' && rows.some((row) => row.date === undefined)) {
+    throw new Error("Calendar-year grouping requires payment dates (set startDate or firstPaymentDate)");
+  }
+
   rows.forEach((row) => {
-    const year = Math.floor((row.month - 1) / 12) + 1; // Loan year #1, #2, etc.
+    const year = groupBy === 'calendarYear' ? Number(row.date?.slice(0, 4)) : row.year;
 
     if (!yearlyMap[year]) {
       yearlyMap[year] = {
         year,
         month: row.month,
-        date: row.date,
+        ...(row.date !== undefined && { date: row.date }),
         payment: 0,
         principal: 0,
         interest: 0,
         balance: row.balance,
+        pmi: 0,
+        escrow: 0,
+        totalPayment: 0,
       };
     }
 
     yearlyMap[year].payment += row.payment;
     yearlyMap[year].principal += row.principal;
     yearlyMap[year].interest += row.interest;
+    yearlyMap[year].pmi += row.pmi;
+    yearlyMap[year].escrow += row.escrow;
+    yearlyMap[year].totalPayment += row.totalPayment;
 
     // overwrite with last month’s values
     yearlyMap[year].month = row.month;
-    yearlyMap[year].date = row.date;
+    if (row.date !== undefined) yearlyMap[year].date = row.date;
     yearlyMap[year].balance = row.balance;
   });
 
   return Object.values(yearlyMap);
-}
\ No newline at end of file
+}
+
+// --- Payments per year for each payment frequency ---
+export const PAYMENTS_PER_YEAR: Record<PaymentFrequency, number> = {
+  monthly: 12,
+  semiMonthly: 24,
+  biweekly: 26,
+  acceleratedBiweekly: 26,
+  weekly: 52,
+};
+
+// --- Helpers ---
+function calculateMonthlyEscrow(escrow: EscrowOptions, loanYear: number): number {
+  const {
+    annualPropertyTax = 0,
+    propertyTaxIncreaseRate = 0,
+    annualInsurance = 0,
+    insuranceIncreaseRate = 0,
+    monthlyHoaFee = 0,
+    hoaFeeIncreaseRate = 0,
+  } = escrow;
+  const grow = (amount: number, rate: number) => amount * Math.pow(1 + rate / 100, loanYear - 1);
+
+  return (
+    grow(annualPropertyTax, propertyTaxIncreaseRate) / 12 +
+    grow(annualInsurance, insuranceIncreaseRate) / 12 +
+    grow(monthlyHoaFee, hoaFeeIncreaseRate)
+  );
+}
+
+function calculateFrequencyPayment(
+  principal: number,
+  annualRate: number,
+  remainingPeriods: number,
+  remainingMonths: number,
+  frequency: PaymentFrequency
+): number {
+  if (frequency === 'acceleratedBiweekly') {
+    return calculateMonthlyPayment(principal, annualRate, remainingMonths) / 2;
+  }
+  return calculatePeriodicPayment(principal, annualRate, remainingPeriods, PAYMENTS_PER_YEAR[frequency]);
+}
+
+// Calendar date without a time or timezone; month is 0-based like Date
+interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+// ISO strings are read as written; Date objects by their local calendar date
+function toCalendarDate(date: Date | string): CalendarDate {
+  if (typeof date === 'string') {
+    const [year = NaN, month = NaN, day = NaN] = date.split('-').map(Number);
+    return { year, month: month - 1, day };
+  }
+  return { year: date.getFullYear(), month: date.getMonth(), day: date.getDate() };
+}
+
+function isValidDate(date: Date | string): boolean {
+  if (typeof date !== 'string') return !isNaN(date.getTime());
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+
+  const { year, month, day } = toCalendarDate(date);
+  return month >= 0 && month < 12 && day >= 1 && day <= daysInMonth(year, month);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Day of month is clamped to the end of the target month (Jan 31 + 1 month = Feb 28)
+function addMonths(date: CalendarDate, months: number, day = date.day): CalendarDate {
+  const target = new Date(Date.UTC(date.year, date.month + months, 1));
+  const year = target.getUTCFullYear();
+  const month = target.getUTCMonth();
+  return { year, month, day: Math.min(day, daysInMonth(year, month)) };
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  const target = new Date(Date.UTC(date.year, date.month, date.day + days));
+  return { year: target.getUTCFullYear(), month: target.getUTCMonth(), day: target.getUTCDate() };
+}
+
+function monthsBetween(from: CalendarDate, to: CalendarDate): number {
+  return (to.year - from.year) * 12 + to.month - from.month;
+}
+
+function formatIsoDate({ year, month, day }: CalendarDate): string {
+  return `${String(year).padStart(4, '0')}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Monthly and semi-monthly loans start paying on the 1st of the month after closing;
+// weekly and biweekly loans one payment period after closing.
+function calculateDefaultFirstPayment(startDate: CalendarDate, frequency: PaymentFrequency): CalendarDate {
+  switch (frequency) {
+    case 'monthly':
+    case 'semiMonthly':
+      return addMonths(startDate, 1, 1);
+    case 'biweekly':
+    case 'acceleratedBiweekly':
+      return addDays(startDate, 14);
+    case 'weekly':
+      return addDays(startDate, 7);
+  }
+}
+
+// Monthly payments keep the first payment's day of month; weekly and biweekly payments fall every 7 or 14 days.
+// Semi-monthly payments fall on two days of the month 14 days apart: the first payment's day and 14 days
+// later when it is the 14th or earlier (10th and 24th), otherwise 14 days earlier, starting next month
+// (20th, then the 6th).
+function calculatePaymentDate(firstPayment: CalendarDate, period: number, frequency: PaymentFrequency): CalendarDate {
+  switch (frequency) {
+    case 'monthly':
+      return addMonths(firstPayment, period - 1);
+    case 'semiMonthly': {
+      const half = period - 1;
+      const monthOffset = Math.floor(half / 2);
+      if (half % 2 === 0) return addMonths(firstPayment, monthOffset);
+      return firstPayment.day <= 14
+        ? addMonths(firstPayment, monthOffset, firstPayment.day + 14)
+        : addMonths(firstPayment, monthOffset + 1, firstPayment.day - 14);
+    }
+    case 'biweekly':
+    case 'acceleratedBiweekly':
+      return addDays(firstPayment, (period - 1) * 14);
+    case 'weekly':
+      return addDays(firstPayment, (period - 1) * 7);
+  }
+}
+
+// Total prepayment scheduled for loan month `month`, which falls in the calendar month of monthDate.
+// Dated prepayments are only scheduled on a dated loan (validation requires a start or first payment date).
+function calculateScheduledPrepayment(
+  prepayments: Prepayment[],
+  month: number,
+  firstPayment: CalendarDate | undefined,
+  monthDate: CalendarDate | undefined
+): number {
+  return prepayments.reduce((total, prepayment) => {
+    const growth = 1 + (prepayment.type === 'lumpSum' ? 0 : prepayment.growthRate ?? 0) / 100;
+
+    switch (prepayment.type) {
+      case 'lumpSum': {
+        const lumpSumMonth = prepayment.month ?? (prepayment.date && firstPayment
+          ? monthsBetween(firstPayment, toCalendarDate(prepayment.date)) + 1
+          : 0);
+        return lumpSumMonth === month ? total + prepayment.amount : total;
+      }
+      case 'recurring': {
+        const { startMonth, endMonth = Infinity, everyMonths = 1 } = prepayment;
+        if (month < startMonth || month > endMonth || (month - startMonth) % everyMonths !== 0) return total;
+        return total + prepayment.amount * Math.pow(growth, Math.floor((month - startMonth) / 12));
+      }
+      case 'annual': {
+        if (!firstPayment || !monthDate) return total;
+        const year = monthDate.year;
+        const { startYear = -Infinity, endYear = Infinity } = prepayment;
+        if (monthDate.month !== prepayment.calendarMonth - 1 || year < startYear || year > endYear) return total;
+
+        // Grows once per occurrence after the first one
+        const firstYear = Math.max(
+          startYear,
+          firstPayment.month <= prepayment.calendarMonth - 1 ? firstPayment.year : firstPayment.year + 1
+        );
+        return total + prepayment.amount * Math.pow(growth, year - firstYear);
+      }
+    }
+  }, 0);
+}
+
+// Fully indexed rate (index + margin), limited by the adjustment and lifetime caps/floors
+function calculateAdjustedRate(
+  arm: AdjustableRateOptions,
+  initialRate: number,
+  currentRate: number,
+  adjustment: number
+): number {
+  const { index, margin, lifetimeCap, lifetimeFloor = margin } = arm;
+  const isFirst = adjustment === 0;
+
+  const indexRate = Array.isArray(index)
+    ? index[Math.min(adjustment, index.length - 1)] ?? 0
+    : index;
+
+  const maxIncrease = isFirst ? arm.initialAdjustmentCap : arm.periodicAdjustmentCap;
+  const maxDecrease = isFirst
+    ? arm.initialAdjustmentFloor ?? arm.initialAdjustmentCap
+    : arm.periodicAdjustmentFloor ?? arm.periodicAdjustmentCap;
+
+  let rate = indexRate + margin;
+  rate = Math.min(Math.max(rate, currentRate - maxDecrease), currentRate + maxIncrease);
+  rate = Math.min(Math.max(rate, lifetimeFloor), initialRate + lifetimeCap);
+
+  return rate;
+}
@@ -0,0 +1,97 @@
+import {
+  calculateMortgageAmortization,
+  PAYMENTS_PER_YEAR,
+  type AmortizationRow,
+  type MortgageAmortizationInput,
+} from './amortization';
+
+// --- Types ---
+export interface AprInput {
+  loan: MortgageAmortizationInput;
+  discountPoints?: number;        // percent of the loan amount
+  originationFees?: number;
+  otherFinanceCharges?: number;   // other prepaid finance charges, e.g. underwriting or processing fees
+}
+
+export interface AprResult {
+  apr: number;
+  noteRate: number;
+  prepaidFinanceCharges: number;
+  amountFinanced: number;
+  financeCharge: number;
+  totalOfPayments: number;
+  schedule: AmortizationRow[];
+}
+
+export interface AprValidationError {
+  field: keyof AprInput;
+  message: string;
+}
+
+export function validateAprInput(
+  input: AprInput
+): AprValidationError[] {
+  const errors: AprValidationError[] = [];
+  const { loan, discountPoints = 0, originationFees = 0, otherFinanceCharges = 0 } = input;
+
+  if (discountPoints < 0) errors.push({ field: "discountPoints", message: "Discount points cannot be negative" });
+  if (originationFees < 0) errors.push({ field: "originationFees", message: "Origination fees cannot be negative" });
+  if (otherFinanceCharges < 0) errors.push({ field: "otherFinanceCharges", message: "Other finance charges cannot be negative" });
+  if (loan.loanAmount * discountPoints / 100 + originationFees + otherFinanceCharges >= loan.loanAmount) {
+    errors.push({ field: "loan", message: "Prepaid finance charges must be less than the loan amount" });
+  }
+
+  return errors;
+}
+
+// --- Main Calculation ---
+// Regulation Z-style actuarial APR: the annual rate at which the payment stream (principal, interest
+// and PMI) discounts back to the amount financed, the loan amount less prepaid finance charges.
+export function calculateApr(input: AprInput): AprResult {
+  const { loan, discountPoints = 0, originationFees = 0, otherFinanceCharges = 0 } = input;
+
+  const errors = validateAprInput(input);
+  if (errors.length > 0) {
+    const err = new Error("APR input validation failed");
+    (err as any).validationErrors = errors;
+    throw err;
+  }
+
+  const schedule = calculateMortgageAmortization(loan);
+  const periodsPerYear = PAYMENTS_PER_YEAR[loan.paymentFrequency ?? 'monthly'];
+  const payments = schedule.map((row) => row.payment + row.pmi);
+
+  const prepaidFinanceCharges = loan.loanAmount * discountPoints / 100 + originationFees + otherFinanceCharges;
+  const amountFinanced = loan.loanAmount - prepaidFinanceCharges;
+  const totalOfPayments = payments.reduce((sum, payment) => sum + payment, 0);
+
+  return {
+    apr: solveApr(payments, amountFinanced, periodsPerYear),
+    noteRate: loan.annualRate,
+    prepaidFinanceCharges,
+    amountFinanced,
+    financeCharge: totalOfPayments - amountFinanced,
+    totalOfPayments,
+    schedule,
+  };
+}
+
+// --- Helpers ---
+// Bisection on the annual rate; present value falls as the rate rises
+function solveApr(payments: number[], amountFinanced: number, periodsPerYear: number): number {
+  const presentValue = (annualRate: number) => {
+    const periodicRate = annualRate / 100 / periodsPerYear;
+    return payments.reduce((pv, payment, i) => pv + payment / Math.pow(1 + periodicRate, i + 1), 0);
+  };
+
+  let low = 0;
+  let high = 100;
+
+  for (let i = 0; i < 200 && high - low > 1e-10; i++) {
+    const mid = (low + high) / 2;
+    if (presentValue(mid) > amountFinanced) low = mid;
+    else high = mid;
+  }
+
+  return (low + high) / 2;
+}
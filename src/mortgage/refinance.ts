@@ -0,0 +1,162 @@
+import {
+  calculateMortgageAmortization,
+  summarizeAmortization,
+  type AmortizationRow,
+  type MortgageAmortizationInput,
+} from './amortization';
+
+// --- Types ---
+export interface RefinanceInput {
+  existingLoan: MortgageAmortizationInput;
+  paymentsMade: number;
+  offers: RefinanceOffer[];
+  discountRate: number;      // annual percent used for net present value
+}
+
+export interface RefinanceOffer {
+  name?: string;
+  annualRate: number;
+  termYears: number;
+  points?: number;           // percent of the refinanced balance
+  closingCosts?: number;
+  rollCostsIntoLoan?: boolean;
+}
+
+export interface RefinanceResult {
+  offer: RefinanceOffer;
+  currentBalance: number;
+  newLoanAmount: number;
+  totalCosts: number;
+  upfrontCosts: number;
+  currentPayment: number;
+  newPayment: number;
+  monthlySavings: number;
+  breakEvenMonth: number | null;
+  remainingInterestCurrent: number;
+  totalInterestNew: number;
+  lifetimeInterestDifference: number;
+  netPresentValue: number;
+}
+
+export interface RefinanceValidationError {
+  field: keyof RefinanceInput;
+  message: string;
+}
+
+export function validateRefinanceInput(
+  input: RefinanceInput
+): RefinanceValidationError[] {
+  const errors: RefinanceValidationError[] = [];
+  const { paymentsMade, offers, discountRate } = input;
+
+  if (paymentsMade < 0) errors.push({ field: "paymentsMade", message: "Payments made cannot be negative" });
+  if (offers.length === 0) errors.push({ field: "offers", message: "At least one refinance offer is required" });
+  if (discountRate <= -100) errors.push({ field: "discountRate", message: "Discount rate must be greater than -100%" });
+
+  offers.forEach((offer, i) => {
+    if (offer.annualRate < 0) errors.push({ field: "offers", message: `Offer ${i + 1} interest rate cannot be negative` });
+    if (offer.termYears <= 0) errors.push({ field: "offers", message: `Offer ${i + 1} term must be greater than 0` });
+    if ((offer.points ?? 0) < 0) errors.push({ field: "offers", message: `Offer ${i + 1} points cannot be negative` });
+    if ((offer.closingCosts ?? 0) < 0) errors.push({ field: "offers", message: `Offer ${i + 1} closing costs cannot be negative` });
+  });
+
+  return errors;
+}
+
+// --- Main Analysis ---
+// Break-even is the first month where cumulative payment savings plus the difference in loan
+// balances covers the upfront costs, so rolled-in costs are recovered through the balance.
+export function calculateRefinanceComparison(
+  input: RefinanceInput
+): RefinanceResult[] {
+  const { existingLoan, paymentsMade, offers, discountRate } = input;
+
+  const errors = validateRefinanceInput(input);
+  if (errors.length > 0) {
+    const err = new Error("Refinance input validation failed");
+    (err as any).validationErrors = errors;
+    throw err;
+  }
+
+  const existingRows = calculateMortgageAmortization(existingLoan);
+  if (paymentsMade >= existingRows.length) {
+    const err = new Error("Refinance input validation failed");
+    (err as any).validationErrors = [{ field: "paymentsMade", message: "Existing loan is already paid off" }];
+    throw err;
+  }
+
+  const currentBalance = paymentsMade > 0
+    ? existingRows[paymentsMade - 1]?.balance ?? 0
+    : existingLoan.loanAmount;
+  const remainingRows = existingRows.slice(paymentsMade);
+  const currentMonths = groupByLoanMonth(remainingRows);
+  const remainingInterestCurrent = summarizeAmortization(remainingRows).totalInterest;
+
+  // The refinance closes on the date of the last payment made on the existing loan (undated if the loan is)
+  const refinanceDate = existingRows[paymentsMade - 1]?.date ?? existingLoan.startDate;
+  const monthlyDiscount = discountRate / 100 / 12;
+
+  return offers.map((offer) => {
+    const { annualRate, termYears, points = 0, closingCosts = 0, rollCostsIntoLoan = false } = offer;
+
+    const totalCosts = currentBalance * points / 100 + closingCosts;
+    const upfrontCosts = rollCostsIntoLoan ? 0 : totalCosts;
+    const newLoanAmount = currentBalance + (rollCostsIntoLoan ? totalCosts : 0);
+
+    const newRows = calculateMortgageAmortization({ loanAmount: newLoanAmount, annualRate, termYears, ...(refinanceDate !== undefined && { startDate: refinanceDate }) });
+    const newMonths = groupByLoanMonth(newRows);
+    const totalInterestNew = summarizeAmortization(newRows).totalInterest;
+
+    const currentPayment = currentMonths[0]?.payment ?? 0;
+    const newPayment = newMonths[0]?.payment ?? 0;
+
+    let cumulativeSavings = 0;
+    let breakEvenMonth: number | null = null;
+    let netPresentValue = -upfrontCosts;
+
+    const horizon = Math.max(currentMonths.length, newMonths.length);
+    for (let m = 0; m < horizon; m++) {
+      const savings = (currentMonths[m]?.payment ?? 0) - (newMonths[m]?.payment ?? 0);
+      cumulativeSavings += savings;
+      netPresentValue += savings / Math.pow(1 + monthlyDiscount, m + 1);
+
+      const balanceDifference = (currentMonths[m]?.balance ?? 0) - (newMonths[m]?.balance ?? 0);
+      if (breakEvenMonth === null && cumulativeSavings + balanceDifference >= upfrontCosts) {
+        breakEvenMonth = m + 1;
+      }
+    }
+
+    return {
+      offer,
+      currentBalance,
+      newLoanAmount,
+      totalCosts,
+      upfrontCosts,
+      currentPayment,
+      newPayment,
+      monthlySavings: currentPayment - newPayment,
+      breakEvenMonth,
+      remainingInterestCurrent,
+      totalInterestNew,
+      lifetimeInterestDifference: remainingInterestCurrent - totalInterestNew,
+      netPresentValue,
+    };
+  });
+}
+
+// --- Helpers ---
+// Total paid and ending balance for each loan month, so schedules with different payment frequencies line up
+function groupByLoanMonth(rows: AmortizationRow[]): { payment: number; balance: number }[] {
+  const months: { payment: number; balance: number }[] = [];
+  const firstMonth = rows[0]?.month ?? 1;
+
+  rows.forEach((row) => {
+    const index = row.month - firstMonth;
+    const month = months[index] ?? { payment: 0, balance: row.balance };
+    month.payment += row.payment;
+    month.balance = row.balance;
+    months[index] = month;
+  });
+
+  return months;
+}
@@ -0,0 +1,260 @@
+import { calculateMortgageAmortization, groupByYear, type YearlyAmortizationRow } from '../mortgage/amortization';
+import { calculateRealEstatePropertyProjection } from './property';
+
+export interface RentVsBuyInput {
+  startYear: number;
+  yearsToCompare: number;
+  homePrice: number;
+  downPayment: number;
+  buyingClosingCosts?: number;
+  annualRate: number;
+  termYears: number;
+  annualPropertyTax: number;
+  propertyTaxIncreaseRate: number;
+  annualInsurance: number;
+  insuranceIncreaseRate: number;
+  monthlyHoaFee?: number;
+  hoaFeeIncreaseRate?: number;
+  maintenanceRate?: number;        // annual percent of home value
+  appreciationRate: number;
+  sellingCostRate: number;         // percent of the sale price
+  monthlyRent: number;
+  rentIncreaseRate: number;
+  annualRentersInsurance?: number;
+  investmentReturn: number;        // annual percent earned on invested savings
+}
+
+export interface RentVsBuyProjectionRow {
+  year: number;
+  homeValue: number;
+  mortgageBalance: number;
+  ownerAnnualCost: number;
+  renterAnnualCost: number;
+  homeEquityAfterSale: number;
+  ownerInvestments: number;
+  renterInvestments: number;
+  ownerNetWorth: number;
+  renterNetWorth: number;
+}
+
+export interface RentVsBuyResult {
+  rows: RentVsBuyProjectionRow[];
+  crossoverYear: number | null;    // first year owning is ahead of renting
+}
+
+export interface RentVsBuyValidationError {
+  field: keyof RentVsBuyInput;
+  message: string;
+}
+
+export function validateRentVsBuyInput(
+  input: RentVsBuyInput
+): RentVsBuyValidationError[] {
+  const errors: RentVsBuyValidationError[] = [];
+  const {
+    startYear,
+    yearsToCompare,
+    homePrice,
+    downPayment,
+    buyingClosingCosts = 0,
+    annualRate,
+    termYears,
+    maintenanceRate = 0,
+    sellingCostRate,
+    monthlyRent,
+    annualRentersInsurance = 0,
+    investmentReturn,
+  } = input;
+
+  if (startYear < 1900)
+    errors.push({
+      field: "startYear",
+      message: "Start year cannot be before 1900",
+    });
+
+  if (yearsToCompare < 1 || yearsToCompare > 100)
+    errors.push({
+      field: "yearsToCompare",
+      message: "Years to compare must be between 1 and 100",
+    });
+
+  if (homePrice <= 0)
+    errors.push({
+      field: "homePrice",
+      message: "Home price must be greater than 0",
+    });
+
+  if (downPayment < 0 || downPayment > homePrice)
+    errors.push({
+      field: "downPayment",
+      message: "Down payment must be between 0 and the home price",
+    });
+
+  if (buyingClosingCosts < 0)
+    errors.push({
+      field: "buyingClosingCosts",
+      message: "Closing costs cannot be negative",
+    });
+
+  if (annualRate < 0)
+    errors.push({
+      field: "annualRate",
+      message: "Annual interest rate cannot be negative",
+    });
+
+  if (termYears <= 0)
+    errors.push({
+      field: "termYears",
+      message: "Loan term must be greater than 0",
+    });
+
+  if (maintenanceRate < 0)
+    errors.push({
+      field: "maintenanceRate",
+      message: "Maintenance rate cannot be negative",
+    });
+
+  if (sellingCostRate < 0 || sellingCostRate > 100)
+    errors.push({
+      field: "sellingCostRate",
+      message: "Selling cost rate must be between 0 and 100%",
+    });
+
+  if (monthlyRent < 0)
+    errors.push({
+      field: "monthlyRent",
+      message: "Monthly rent cannot be negative",
+    });
+
+  if (annualRentersInsurance < 0)
+    errors.push({
+      field: "annualRentersInsurance",
+      message: "Renters insurance cannot be negative",
+    });
+
+  if (investmentReturn < -100)
+    errors.push({
+      field: "investmentReturn",
+      message: "Investment return cannot be less than -100%",
+    });
+
+  return errors;
+}
+
+// Year-by-year net worth of buying versus renting. The renter invests the down payment and closing
+// costs up front; each year whichever path costs less invests the difference at investmentReturn
+// (added at year end). The owner's net worth assumes the home is sold, net of selling costs.
+export function calculateRentVsBuyProjection(input: RentVsBuyInput): RentVsBuyResult {
+  const {
+    startYear,
+    yearsToCompare,
+    homePrice,
+    downPayment,
+    buyingClosingCosts = 0,
+    annualRate,
+    termYears,
+    annualPropertyTax,
+    propertyTaxIncreaseRate,
+    annualInsurance,
+    insuranceIncreaseRate,
+    monthlyHoaFee = 0,
+    hoaFeeIncreaseRate = 0,
+    maintenanceRate = 0,
+    appreciationRate,
+    sellingCostRate,
+    monthlyRent,
+    rentIncreaseRate,
+    annualRentersInsurance = 0,
+    investmentReturn,
+  } = input;
+
+  const errors = validateRentVsBuyInput(input);
+  if (errors.length > 0) {
+    const err = new Error("Rent vs Buy input validation failed");
+    (err as any).validationErrors = errors;
+    throw err;
+  }
+
+  // Mortgage payments from January of startYear, grouped by calendar year
+  const loanAmount = homePrice - downPayment;
+  const mortgageYears: YearlyAmortizationRow[] = loanAmount > 0
+    ? groupByYear(
+        calculateMortgageAmortization({
+          loanAmount,
+          annualRate,
+          termYears,
+          startDate: `${startYear - 1}-12-01`,
+          firstPaymentDate: `${startYear}-01-01`,
+        }),
+        'calendarYear'
+      )
+    : [];
+
+  // Property tax, insurance and HOA growth
+  const propertyRows = calculateRealEstatePropertyProjection({
+    startYear,
+    birthYear: startYear,
+    propertyType: 'residence',
+    monthlyMortgage: 0,
+    mortgageEndYear: startYear,
+    annualPropertyTax,
+    propertyTaxIncreaseRate,
+    annualInsurance,
+    insuranceIncreaseRate,
+    monthlyHoaFee,
+    hoaFeeIncreaseRate,
+    lifeExpectancyAge: yearsToCompare - 1,
+  });
+
+  let homeValue = homePrice;
+  let ownerInvestments = 0;
+  let renterInvestments = downPayment + buyingClosingCosts;
+  let crossoverYear: number | null = null;
+
+  const rows: RentVsBuyProjectionRow[] = [];
+
+  for (let i = 0; i < yearsToCompare; i++) {
+    const year = startYear + i;
+    const mortgage = mortgageYears.find((row) => row.year === year);
+    const property = propertyRows[i];
+
+    const maintenance = homeValue * maintenanceRate / 100;
+    const ownerAnnualCost =
+      (mortgage?.payment ?? 0) +
+      (property?.annualPropertyTax ?? 0) +
+      (property?.annualInsurance ?? 0) +
+      (property?.monthlyHoaFee ?? 0) * 12 +
+      maintenance;
+    const renterAnnualCost =
+      monthlyRent * 12 * Math.pow(1 + rentIncreaseRate / 100, i) + annualRentersInsurance;
+
+    // Whoever spends less invests the difference
+    const growth = 1 + investmentReturn / 100;
+    ownerInvestments = ownerInvestments * growth + Math.max(renterAnnualCost - ownerAnnualCost, 0);
+    renterInvestments = renterInvestments * growth + Math.max(ownerAnnualCost - renterAnnualCost, 0);
+
+    homeValue *= 1 + appreciationRate / 100;
+    const mortgageBalance = loanAmount > 0 ? mortgage?.balance ?? 0 : 0;
+    const homeEquityAfterSale = homeValue * (1 - sellingCostRate / 100) - mortgageBalance;
+
+    const ownerNetWorth = homeEquityAfterSale + ownerInvestments;
+    const renterNetWorth = renterInvestments;
+
+    if (crossoverYear === null && ownerNetWorth >= renterNetWorth) crossoverYear = year;
+
+    rows.push({
+      year,
+      homeValue: Math.round(homeValue),
+      mortgageBalance: Math.round(mortgageBalance),
+      ownerAnnualCost: Math.round(ownerAnnualCost),
+      renterAnnualCost: Math.round(renterAnnualCost),
+      homeEquityAfterSale: Math.round(homeEquityAfterSale),
+      ownerInvestments: Math.round(ownerInvestments),
+      renterInvestments: Math.round(renterInvestments),
+      ownerNetWorth: Math.round(ownerNetWorth),
+      renterNetWorth: Math.round(renterNetWorth),
+    });
+  }
+
+  return { rows, crossoverYear };
+}
@@ -0,0 +1,158 @@
+import {
+  calculateRetirementSavingsProjectionWithOverrides,
+  type RetirementSavingsInput,
+  type RetirementSavingsProjectionRow,
+  type RetirementSavingsYearOverrides,
+} from './savings';
+import { HISTORICAL_RETURNS, type HistoricalReturnYear } from './historicalReturns';
+
+// --- Types ---
+export interface BacktestInput {
+  savings: RetirementSavingsInput;
+  stockAllocation: number;                    // percent in stocks, the rest in bonds, rebalanced yearly
+  adjustWithdrawalsForInflation?: boolean;    // keep the first withdrawal constant in real terms
+  historicalReturns?: HistoricalReturnYear[]; // defaults to the bundled HISTORICAL_RETURNS
+}
+
+export interface BacktestRow extends RetirementSavingsProjectionRow {
+  historicalYear: number;
+  inflation: number;
+  realEndingBalance: number;   // in dollars of the year before the cohort starts
+}
+
+export interface BacktestCohort {
+  historicalStartYear: number;
+  rows: BacktestRow[];
+  success: boolean;
+  depletionAge: number | null;
+  endingBalance: number;
+  realEndingBalance: number;
+}
+
+export interface BacktestResult {
+  cohorts: BacktestCohort[];
+  successRate: number;
+  worstStartYear: number;
+  bestStartYear: number;
+}
+
+export interface BacktestValidationError {
+  field: keyof BacktestInput;
+  message: string;
+}
+
+export function validateBacktestInput(
+  input: BacktestInput
+): BacktestValidationError[] {
+  const errors: BacktestValidationError[] = [];
+  const { savings, stockAllocation, historicalReturns = HISTORICAL_RETURNS } = input;
+  const yearsToProject = savings.birthYear + savings.lifeExpectancyAge - savings.startYear + 1;
+
+  if (stockAllocation < 0 || stockAllocation > 100) errors.push({ field: "stockAllocation", message: "Stock allocation must be between 0 and 100%" });
+  if (historicalReturns.length === 0) errors.push({ field: "historicalReturns", message: "Historical returns cannot be empty" });
+  else if (yearsToProject > historicalReturns.length) errors.push({ field: "savings", message: "Projection is longer than the historical return data" });
+
+  return errors;
+}
+
+// --- Main Backtest ---
+// Replays the plan against every complete rolling window of historical years: the first plan year
+// uses the returns of the window's first year, and so on. Years whose override sets yieldPercent
+// or endingBalance keep it. A cohort fails when its balance runs out at or after withdrawStartAge.
+export function calculateRetirementSavingsBacktest(
+  input: BacktestInput
+): BacktestResult {
+  const { savings, stockAllocation, adjustWithdrawalsForInflation = false, historicalReturns = HISTORICAL_RETURNS } = input;
+
+  const errors = validateBacktestInput(input);
+  if (errors.length > 0) {
+    const err = new Error("Backtest input validation failed");
+    (err as any).validationErrors = errors;
+    throw err;
+  }
+
+  const history = [...historicalReturns].sort((a, b) => a.year - b.year);
+  const { startYear, birthYear, lifeExpectancyAge, withdrawStartAge, yearOverrides = {} } = savings;
+  const yearsToProject = birthYear + lifeExpectancyAge - startYear + 1;
+
+  const cohorts: BacktestCohort[] = [];
+
+  for (let s = 0; s + yearsToProject <= history.length; s++) {
+    const window = history.slice(s, s + yearsToProject);
+    const trialOverrides: RetirementSavingsYearOverrides = {};
+
+    window.forEach((historical, i) => {
+      const year = startYear + i;
+      const override = yearOverrides[year] ?? {};
+      const blended = (historical.stocks * stockAllocation + historical.bonds * (100 - stockAllocation)) / 100;
+
+      trialOverrides[year] =
+        override.yieldPercent !== undefined || override.endingBalance !== undefined
+          ? override
+          : { ...override, yieldPercent: blended };
+    });
+
+    let projection = calculateRetirementSavingsProjectionWithOverrides({ ...savings, yearOverrides: trialOverrides });
+
+    // The first withdrawal only depends on earlier years, so a second pass can grow it with inflation
+    if (adjustWithdrawalsForInflation) {
+      const firstIndex = projection.findIndex((row) => row.age >= withdrawStartAge);
+      const firstWithdraw = projection[firstIndex]?.annualWithdraw ?? 0;
+      let withdraw = firstWithdraw;
+
+      for (let i = firstIndex + 1; firstIndex >= 0 && i < yearsToProject; i++) {
+        withdraw *= 1 + (window[i - 1]?.inflation ?? 0) / 100;
+
+        const year = startYear + i;
+        const override = trialOverrides[year] ?? {};
+        if (override.annualWithdraw === undefined && override.withdrawRate === undefined && override.endingBalance === undefined) {
+          trialOverrides[year] = { ...override, annualWithdraw: withdraw };
+        }
+      }
+
+      projection = calculateRetirementSavingsProjectionWithOverrides({ ...savings, yearOverrides: trialOverrides });
+    }
+
+    let priceLevel = 1;
+    const rows: BacktestRow[] = projection.map((row, i) => {
+      const inflation = window[i]?.inflation ?? 0;
+      priceLevel *= 1 + inflation / 100;
+      return {
+        ...row,
+        historicalYear: window[i]?.year ?? 0,
+        inflation,
+        realEndingBalance: row.endingBalance / priceLevel,
+      };
+    });
+
+    const depleted = rows.find((row) => row.age >= withdrawStartAge && row.endingBalance <= 0);
+    const last = rows[rows.length - 1];
+
+    cohorts.push({
+      historicalStartYear: window[0]?.year ?? 0,
+      rows,
+      success: depleted === undefined,
+      depletionAge: depleted?.age ?? null,
+      endingBalance: last?.endingBalance ?? 0,
+      realEndingBalance: last?.realEndingBalance ?? 0,
+    });
+  }
+
+  const ranked = [...cohorts].sort(compareCohorts);
+
+  return {
+    cohorts,
+    successRate: cohorts.filter((cohort) => cohort.success).length / cohorts.length,
+    worstStartYear: ranked[0]?.historicalStartYear ?? 0,
+    bestStartYear: ranked[ranked.length - 1]?.historicalStartYear ?? 0,
+  };
+}
+
+// --- Helpers ---
+// Earlier depletion ranks worse; otherwise the lower real ending balance does
+function compareCohorts(a: BacktestCohort, b: BacktestCohort): number {
+  const depletionA = a.depletionAge ?? Infinity;
+  const depletionB = b.depletionAge ?? Infinity;
+  if (depletionA !== depletionB) return depletionA - depletionB;
+  return a.realEndingBalance - b.realEndingBalance;
+}
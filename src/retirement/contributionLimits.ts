@@ -0,0 +1,107 @@
+// --- Types ---
+export type RetirementPlanType = '401k' | 'tsp' | 'ira';
+
+export interface ContributionLimitYear {
+  year: number;
+  electiveDeferral: number;    // 401(k), 403(b), 457(b) and TSP employee deferrals
+  catchUp: number;             // age 50 and over
+  superCatchUp: number;        // SECURE 2.0 age 60-63, replaces catchUp
+  ira: number;
+  iraCatchUp: number;
+}
+
+export interface ContributionLimitOptions {
+  planType: RetirementPlanType;
+  limitIndexRate?: number;     // annual percent used to index limits past the last table year, default 2.5
+  limits?: ContributionLimitYear[];
+}
+
+// Each tier matches matchPercent of the employee deferral on the next salaryPercent of pay
+export interface EmployerMatchTier {
+  matchPercent: number;
+  salaryPercent: number;
+}
+
+export interface EmployerMatchFormula {
+  automaticPercent?: number;   // percent of salary contributed regardless of deferrals
+  tiers: EmployerMatchTier[];
+}
+
+// --- Data ---
+// IRS annual limits (Notices 2022-55, 2023-75, 2024-80 and 2025-67)
+export const CONTRIBUTION_LIMITS: ContributionLimitYear[] = [
+  { year: 2023, electiveDeferral: 22500, catchUp: 7500, superCatchUp: 7500, ira: 6500, iraCatchUp: 1000 },
+  { year: 2024, electiveDeferral: 23000, catchUp: 7500, superCatchUp: 7500, ira: 7000, iraCatchUp: 1000 },
+  { year: 2025, electiveDeferral: 23500, catchUp: 7500, superCatchUp: 11250, ira: 7000, iraCatchUp: 1000 },
+  { year: 2026, electiveDeferral: 24500, catchUp: 8000, superCatchUp: 11250, ira: 7500, iraCatchUp: 1100 },
+];
+
+// FERS: 1% automatic, dollar for dollar on the first 3% and 50 cents on the dollar on the next 2%
+export const TSP_MATCH_FORMULA: EmployerMatchFormula = {
+  automaticPercent: 1,
+  tiers: [
+    { matchPercent: 100, salaryPercent: 3 },
+    { matchPercent: 50, salaryPercent: 2 },
+  ],
+};
+
+// --- Limits ---
+// Employee limit for the year, including catch-up for the age reached that year. Years past the
+// table are indexed from its last year, with increases rounded down to $500 ($100 for IRA catch-up).
+export function getEmployeeContributionLimit(
+  year: number,
+  age: number,
+  options: ContributionLimitOptions
+): number {
+  const { planType, limitIndexRate = 2.5, limits = CONTRIBUTION_LIMITS } = options;
+  const limit = getLimitYear(year, limitIndexRate, limits);
+
+  if (planType === 'ira') return limit.ira + (age >= 50 ? limit.iraCatchUp : 0);
+
+  const catchUp = age >= 60 && age <= 63 ? limit.superCatchUp : age >= 50 ? limit.catchUp : 0;
+  return limit.electiveDeferral + catchUp;
+}
+
+// --- Employer Match ---
+export function calculateEmployerMatch(
+  salary: number,
+  employeeContribution: number,
+  formula: EmployerMatchFormula
+): number {
+  if (salary <= 0) return 0;
+
+  let deferralPercent = (employeeContribution / salary) * 100;
+  let matchPercent = formula.automaticPercent ?? 0;
+
+  for (const tier of formula.tiers) {
+    const matched = Math.min(Math.max(deferralPercent, 0), tier.salaryPercent);
+    matchPercent += matched * tier.matchPercent / 100;
+    deferralPercent -= matched;
+  }
+
+  return salary * matchPercent / 100;
+}
+
+// --- Helpers ---
+function getLimitYear(year: number, indexRate: number, limits: ContributionLimitYear[]): ContributionLimitYear {
+  const sorted = [...limits].sort((a, b) => a.year - b.year);
+  const exact = sorted.find((l) => l.year === year);
+  if (exact) return exact;
+
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  if (!first || !last) return { year, electiveDeferral: 0, catchUp: 0, superCatchUp: 0, ira: 0, iraCatchUp: 0 };
+  if (year < first.year) return first;
+
+  const factor = Math.pow(1 + indexRate / 100, year - last.year);
+  const index = (amount: number, step: number) => amount + Math.floor(amount * (factor - 1) / step) * step;
+
+  return {
+    year,
+    electiveDeferral: index(last.electiveDeferral, 500),
+    catchUp: index(last.catchUp, 500),
+    superCatchUp: index(last.superCatchUp, 500),
+    ira: index(last.ira, 500),
+    iraCatchUp: index(last.iraCatchUp, 100),
+  };
+}
@@ -0,0 +1,120 @@
+// --- Types ---
+export type FilingStatus = 'single' | 'marriedFilingJointly';
+
+export interface TaxBracket {
+  rate: number;     // percent
+  upTo: number;     // top of the bracket in taxable income; Infinity for the last bracket
+}
+
+export interface FederalTaxTable {
+  year: number;
+  standardDeduction: Record<FilingStatus, number>;
+  ordinaryBrackets: Record<FilingStatus, TaxBracket[]>;
+  capitalGainsBrackets: Record<FilingStatus, TaxBracket[]>;
+}
+
+export interface FederalTaxResult {
+  taxableIncome: number;
+  ordinaryTax: number;
+  capitalGainsTax: number;
+  totalTax: number;
+}
+
+// --- Data ---
+// 2025 federal income tax parameters (IRS Rev. Proc. 2024-40, standard deduction as amended in 2025)
+export const FEDERAL_TAX_2025: FederalTaxTable = {
+  year: 2025,
+  standardDeduction: { single: 15750, marriedFilingJointly: 31500 },
+  ordinaryBrackets: {
+    single: [
+      { rate: 10, upTo: 11925 },
+      { rate: 12, upTo: 48475 },
+      { rate: 22, upTo: 103350 },
+      { rate: 24, upTo: 197300 },
+      { rate: 32, upTo: 250525 },
+      { rate: 35, upTo: 626350 },
+      { rate: 37, upTo: Infinity },
+    ],
+    marriedFilingJointly: [
+      { rate: 10, upTo: 23850 },
+      { rate: 12, upTo: 96950 },
+      { rate: 22, upTo: 206700 },
+      { rate: 24, upTo: 394600 },
+      { rate: 32, upTo: 501050 },
+      { rate: 35, upTo: 751600 },
+      { rate: 37, upTo: Infinity },
+    ],
+  },
+  capitalGainsBrackets: {
+    single: [
+      { rate: 0, upTo: 48350 },
+      { rate: 15, upTo: 533400 },
+      { rate: 20, upTo: Infinity },
+    ],
+    marriedFilingJointly: [
+      { rate: 0, upTo: 96700 },
+      { rate: 15, upTo: 600050 },
+      { rate: 20, upTo: Infinity },
+    ],
+  },
+};
+
+// --- Tax Calculation ---
+// Long-term capital gains are stacked on top of ordinary income. indexFactor scales every
+// threshold, e.g. 1.025 for one year of 2.5% inflation indexing.
+export function calculateFederalIncomeTax(
+  ordinaryIncome: number,
+  capitalGains: number,
+  filingStatus: FilingStatus,
+  indexFactor = 1,
+  table: FederalTaxTable = FEDERAL_TAX_2025
+): FederalTaxResult {
+  const deduction = table.standardDeduction[filingStatus] * indexFactor;
+  const ordinaryTaxable = Math.max(ordinaryIncome - deduction, 0);
+  // Unused deduction offsets gains
+  const gainsTaxable = Math.max(capitalGains - Math.max(deduction - ordinaryIncome, 0), 0);
+
+  const ordinaryTax = taxOnRange(0, ordinaryTaxable, table.ordinaryBrackets[filingStatus], indexFactor);
+  const capitalGainsTax = taxOnRange(
+    ordinaryTaxable,
+    ordinaryTaxable + gainsTaxable,
+    table.capitalGainsBrackets[filingStatus],
+    indexFactor
+  );
+
+  return {
+    taxableIncome: ordinaryTaxable + gainsTaxable,
+    ordinaryTax,
+    capitalGainsTax,
+    totalTax: ordinaryTax + capitalGainsTax,
+  };
+}
+
+// Ordinary income that fits below the top of the bracket with the given rate, including the standard deduction
+export function calculateBracketCeiling(
+  rate: number,
+  filingStatus: FilingStatus,
+  indexFactor = 1,
+  table: FederalTaxTable = FEDERAL_TAX_2025
+): number {
+  const bracket = table.ordinaryBrackets[filingStatus].find((b) => b.rate === rate);
+  if (!bracket) return 0;
+  return (bracket.upTo + table.standardDeduction[filingStatus]) * indexFactor;
+}
+
+// --- Helpers ---
+// Tax on the slice of income between from and to, using the brackets for that slice
+function taxOnRange(from: number, to: number, brackets: TaxBracket[], indexFactor: number): number {
+  let tax = 0;
+  let lower = 0;
+
+  for (const bracket of brackets) {
+    const upper = bracket.upTo * indexFactor;
+    const overlap = Math.min(to, upper) - Math.max(from, lower);
+    if (overlap > 0) tax += overlap * bracket.rate / 100;
+    lower = upper;
+    if (lower >= to) break;
+  }
+
+  return tax;
+}
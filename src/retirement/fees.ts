@@ -0,0 +1,51 @@
+// --- Types ---
+// Marginal schedule: rate applies to the part of the balance below upTo (Infinity for the last tier)
+export interface AdvisoryFeeTier {
+  upTo: number;
+  rate: number;                   // annual percent
+}
+
+export interface InvestmentFees {
+  expenseRatio?: number;          // annual percent of the balance
+  advisoryFee?: number | AdvisoryFeeTier[];   // annual percent, or a tiered AUM schedule
+  flatAnnualFee?: number;         // dollars per year while the account has a balance
+}
+
+// --- Fee Calculation ---
+export function calculateInvestmentFees(balance: number, fees: InvestmentFees): number {
+  if (balance <= 0) return 0;
+
+  const { expenseRatio = 0, advisoryFee = 0, flatAnnualFee = 0 } = fees;
+  const advisory = typeof advisoryFee === 'number'
+    ? balance * advisoryFee / 100
+    : calculateTieredFee(balance, advisoryFee);
+
+  return balance * expenseRatio / 100 + advisory + flatAnnualFee;
+}
+
+export function validateInvestmentFees(fees: InvestmentFees): string[] {
+  const messages: string[] = [];
+  const { expenseRatio = 0, advisoryFee = 0, flatAnnualFee = 0 } = fees;
+
+  if (expenseRatio < 0) messages.push("Expense ratio cannot be negative");
+  if (flatAnnualFee < 0) messages.push("Flat annual fee cannot be negative");
+  if (typeof advisoryFee === 'number' ? advisoryFee < 0 : advisoryFee.some((tier) => tier.rate < 0 || tier.upTo <= 0))
+    messages.push("Advisory fee rates cannot be negative");
+
+  return messages;
+}
+
+// --- Helpers ---
+function calculateTieredFee(balance: number, tiers: AdvisoryFeeTier[]): number {
+  let fee = 0;
+  let lower = 0;
+
+  for (const tier of [...tiers].sort((a, b) => a.upTo - b.upTo)) {
+    const amount = Math.min(balance, tier.upTo) - lower;
+    if (amount <= 0) break;
+    fee += amount * tier.rate / 100;
+    lower = tier.upTo;
+  }
+
+  return fee;
+}
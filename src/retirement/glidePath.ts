@@ -0,0 +1,146 @@
+// --- Types ---
+export interface AssetClass {
+  name: string;
+  expectedReturn: number;        // annual percent
+  volatility: number;            // annual standard deviation, percent
+}
+
+// Percent of the portfolio in each asset class, keyed by asset class name
+export type Allocation = Record<string, number>;
+
+export interface GlidePathPoint {
+  at: number;                    // age or calendar year
+  allocation: Allocation;
+}
+
+export type GlidePath =
+  // Equity share = base minus age (e.g. 110-minus-age), the rest in fixedIncome
+  | { type: 'ageRule'; base: number; equity: string; fixedIncome: string }
+  // Allocations interpolated linearly between points
+  | { type: 'schedule'; by: 'age' | 'year'; points: GlidePathPoint[] };
+
+export interface AssetAllocationOptions {
+  assetClasses: AssetClass[];
+  glidePath: GlidePath;
+  rebalanceEveryYears?: number;  // default 1; 0 lets the starting allocation drift
+}
+
+// --- Presets ---
+// Illustrative TSP fund assumptions; replace with your own capital market expectations
+export const TSP_ASSET_CLASSES: AssetClass[] = [
+  { name: 'G', expectedReturn: 3, volatility: 1 },
+  { name: 'F', expectedReturn: 4, volatility: 6 },
+  { name: 'C', expectedReturn: 7, volatility: 16 },
+  { name: 'S', expectedReturn: 8, volatility: 20 },
+  { name: 'I', expectedReturn: 7, volatility: 17 },
+];
+
+// Approximates the TSP L Fund glide path: nearly all equities 45 years before the target year,
+// moving to the L Income mix at the target year and holding it afterwards
+export function createTspLFundGlidePath(targetYear: number): GlidePath {
+  return {
+    type: 'schedule',
+    by: 'year',
+    points: [
+      { at: targetYear - 45, allocation: { G: 0, F: 1, C: 58, S: 15, I: 26 } },
+      { at: targetYear - 20, allocation: { G: 17, F: 3, C: 47, S: 12, I: 21 } },
+      { at: targetYear, allocation: { G: 60, F: 6, C: 18, S: 5, I: 11 } },
+    ],
+  };
+}
+
+// --- Allocation ---
+export function calculateGlidePathAllocation(glidePath: GlidePath, age: number, year: number): Allocation {
+  if (glidePath.type === 'ageRule') {
+    const equity = Math.min(Math.max(glidePath.base - age, 0), 100);
+    return { [glidePath.equity]: equity, [glidePath.fixedIncome]: 100 - equity };
+  }
+
+  const at = glidePath.by === 'age' ? age : year;
+  const points = [...glidePath.points].sort((a, b) => a.at - b.at);
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (!first || !last) return {};
+  if (at <= first.at) return { ...first.allocation };
+  if (at >= last.at) return { ...last.allocation };
+
+  const upperIndex = points.findIndex((point) => point.at > at);
+  const lower = points[upperIndex - 1] ?? first;
+  const upper = points[upperIndex] ?? last;
+  const t = (at - lower.at) / (upper.at - lower.at);
+
+  const allocation: Allocation = {};
+  new Set([...Object.keys(lower.allocation), ...Object.keys(upper.allocation)]).forEach((name) => {
+    const from = lower.allocation[name] ?? 0;
+    const to = upper.allocation[name] ?? 0;
+    allocation[name] = from + (to - from) * t;
+  });
+  return allocation;
+}
+
+// Expected return and volatility of an allocation, with one pairwise correlation between classes
+export function calculatePortfolioReturn(
+  allocation: Allocation,
+  assetClasses: AssetClass[],
+  correlation = 0
+): { expectedReturn: number; volatility: number } {
+  let expectedReturn = 0;
+  let variance = 0;
+
+  assetClasses.forEach((a) => {
+    const weightA = (allocation[a.name] ?? 0) / 100;
+    expectedReturn += weightA * a.expectedReturn;
+
+    assetClasses.forEach((b) => {
+      const weightB = (allocation[b.name] ?? 0) / 100;
+      const rho = a.name === b.name ? 1 : correlation;
+      variance += weightA * weightB * a.volatility * b.volatility * rho;
+    });
+  });
+
+  return { expectedReturn, volatility: Math.sqrt(variance) };
+}
+
+// Weights after a year of growth at each class's expected return, without rebalancing
+export function driftAllocation(allocation: Allocation, assetClasses: AssetClass[]): Allocation {
+  const grown: Allocation = {};
+  let total = 0;
+
+  Object.entries(allocation).forEach(([name, weight]) => {
+    const assetClass = assetClasses.find((a) => a.name === name);
+    grown[name] = weight * (1 + (assetClass?.expectedReturn ?? 0) / 100);
+    total += grown[name] ?? 0;
+  });
+
+  if (total <= 0) return allocation;
+  Object.keys(grown).forEach((name) => (grown[name] = ((grown[name] ?? 0) / total) * 100));
+  return grown;
+}
+
+export function validateAssetAllocation(options: AssetAllocationOptions): string[] {
+  const messages: string[] = [];
+  const { assetClasses, glidePath, rebalanceEveryYears = 1 } = options;
+  const names = new Set(assetClasses.map((a) => a.name));
+
+  if (assetClasses.length === 0) messages.push("At least one asset class is required");
+  if (assetClasses.some((a) => a.expectedReturn < -100 || a.volatility < 0))
+    messages.push("Asset class returns cannot be less than -100% and volatility cannot be negative");
+  if (!Number.isInteger(rebalanceEveryYears) || rebalanceEveryYears < 0)
+    messages.push("Rebalance interval must be a whole number of years");
+
+  if (glidePath.type === 'ageRule') {
+    if (!names.has(glidePath.equity) || !names.has(glidePath.fixedIncome))
+      messages.push("Glide path refers to an unknown asset class");
+  } else {
+    if (glidePath.points.length === 0) messages.push("Glide path needs at least one point");
+    glidePath.points.forEach((point) => {
+      const weights = Object.entries(point.allocation);
+      if (weights.some(([name]) => !names.has(name))) messages.push(`Glide path point ${point.at} refers to an unknown asset class`);
+      if (weights.some(([, weight]) => weight < 0)) messages.push(`Glide path point ${point.at} has a negative weight`);
+      if (Math.abs(weights.reduce((sum, [, weight]) => sum + weight, 0) - 100) > 0.01)
+        messages.push(`Glide path point ${point.at} must add up to 100%`);
+    });
+  }
+
+  return messages;
+}
@@ -0,0 +1,110 @@
+// --- Types ---
+export interface HistoricalReturnYear {
+  year: number;
+  stocks: number;       // percent, S&P 500 total return including dividends
+  bonds: number;        // percent, 10-year US Treasury total return
+  inflation: number;    // percent, CPI-U December to December
+}
+
+// --- Data ---
+// Annual US market returns and inflation, 1928-2024. Stock and bond returns follow the
+// Damodaran (NYU Stern) historical returns dataset; inflation is the BLS CPI-U series.
+export const HISTORICAL_RETURNS: HistoricalReturnYear[] = [
+  { year: 1928, stocks: 43.81, bonds: 0.84, inflation: -1 },
+  { year: 1929, stocks: -8.3, bonds: 4.2, inflation: 0.2 },
+  { year: 1930, stocks: -25.12, bonds: 4.54, inflation: -6 },
+  { year: 1931, stocks: -43.84, bonds: -2.56, inflation: -9.5 },
+  { year: 1932, stocks: -8.64, bonds: 8.79, inflation: -10.3 },
+  { year: 1933, stocks: 49.98, bonds: 1.86, inflation: 0.8 },
+  { year: 1934, stocks: -1.19, bonds: 7.96, inflation: 1.5 },
+  { year: 1935, stocks: 46.74, bonds: 4.47, inflation: 3 },
+  { year: 1936, stocks: 31.94, bonds: 5.02, inflation: 1.4 },
+  { year: 1937, stocks: -35.34, bonds: 1.38, inflation: 2.9 },
+  { year: 1938, stocks: 29.28, bonds: 4.21, inflation: -2.8 },
+  { year: 1939, stocks: -1.1, bonds: 4.41, inflation: 0 },
+  { year: 1940, stocks: -10.67, bonds: 5.4, inflation: 0.7 },
+  { year: 1941, stocks: -12.77, bonds: -2.02, inflation: 9.9 },
+  { year: 1942, stocks: 19.17, bonds: 2.29, inflation: 9 },
+  { year: 1943, stocks: 25.06, bonds: 2.49, inflation: 3 },
+  { year: 1944, stocks: 19.03, bonds: 2.58, inflation: 2.3 },
+  { year: 1945, stocks: 35.82, bonds: 3.8, inflation: 2.2 },
+  { year: 1946, stocks: -8.43, bonds: 3.13, inflation: 18.1 },
+  { year: 1947, stocks: 5.2, bonds: 0.92, inflation: 8.8 },
+  { year: 1948, stocks: 5.7, bonds: 1.95, inflation: 3 },
+  { year: 1949, stocks: 18.3, bonds: 4.66, inflation: -2.1 },
+  { year: 1950, stocks: 30.81, bonds: 0.43, inflation: 5.9 },
+  { year: 1951, stocks: 23.68, bonds: -0.3, inflation: 6 },
+  { year: 1952, stocks: 18.15, bonds: 2.27, inflation: 0.8 },
+  { year: 1953, stocks: -1.21, bonds: 4.14, inflation: 0.7 },
+  { year: 1954, stocks: 52.56, bonds: 3.29, inflation: -0.7 },
+  { year: 1955, stocks: 32.6, bonds: -1.34, inflation: 0.4 },
+  { year: 1956, stocks: 7.44, bonds: -2.26, inflation: 3 },
+  { year: 1957, stocks: -10.46, bonds: 6.8, inflation: 2.9 },
+  { year: 1958, stocks: 43.72, bonds: -2.1, inflation: 1.8 },
+  { year: 1959, stocks: 12.06, bonds: -2.65, inflation: 1.7 },
+  { year: 1960, stocks: 0.34, bonds: 11.64, inflation: 1.4 },
+  { year: 1961, stocks: 26.64, bonds: 2.06, inflation: 0.7 },
+  { year: 1962, stocks: -8.81, bonds: 5.69, inflation: 1.3 },
+  { year: 1963, stocks: 22.61, bonds: 1.68, inflation: 1.6 },
+  { year: 1964, stocks: 16.42, bonds: 3.73, inflation: 1 },
+  { year: 1965, stocks: 12.4, bonds: 0.72, inflation: 1.9 },
+  { year: 1966, stocks: -9.97, bonds: 2.91, inflation: 3.5 },
+  { year: 1967, stocks: 23.8, bonds: -1.58, inflation: 3 },
+  { year: 1968, stocks: 10.81, bonds: 3.27, inflation: 4.7 },
+  { year: 1969, stocks: -8.24, bonds: -5.01, inflation: 6.2 },
+  { year: 1970, stocks: 3.56, bonds: 16.75, inflation: 5.6 },
+  { year: 1971, stocks: 14.22, bonds: 9.79, inflation: 3.3 },
+  { year: 1972, stocks: 18.76, bonds: 2.82, inflation: 3.4 },
+  { year: 1973, stocks: -14.31, bonds: 3.66, inflation: 8.7 },
+  { year: 1974, stocks: -25.9, bonds: 1.99, inflation: 12.3 },
+  { year: 1975, stocks: 37, bonds: 3.61, inflation: 6.9 },
+  { year: 1976, stocks: 23.83, bonds: 15.98, inflation: 4.9 },
+  { year: 1977, stocks: -6.98, bonds: 1.29, inflation: 6.7 },
+  { year: 1978, stocks: 6.51, bonds: -0.78, inflation: 9 },
+  { year: 1979, stocks: 18.52, bonds: 0.67, inflation: 13.3 },
+  { year: 1980, stocks: 31.74, bonds: -2.99, inflation: 12.5 },
+  { year: 1981, stocks: -4.7, bonds: 8.2, inflation: 8.9 },
+  { year: 1982, stocks: 20.42, bonds: 32.81, inflation: 3.8 },
+  { year: 1983, stocks: 22.34, bonds: 3.2, inflation: 3.8 },
+  { year: 1984, stocks: 6.15, bonds: 13.73, inflation: 3.9 },
+  { year: 1985, stocks: 31.24, bonds: 25.71, inflation: 3.8 },
+  { year: 1986, stocks: 18.49, bonds: 24.28, inflation: 1.1 },
+  { year: 1987, stocks: 5.81, bonds: -4.96, inflation: 4.4 },
+  { year: 1988, stocks: 16.54, bonds: 8.22, inflation: 4.4 },
+  { year: 1989, stocks: 31.48, bonds: 17.69, inflation: 4.6 },
+  { year: 1990, stocks: -3.06, bonds: 6.24, inflation: 6.1 },
+  { year: 1991, stocks: 30.23, bonds: 15, inflation: 3.1 },
+  { year: 1992, stocks: 7.49, bonds: 9.36, inflation: 2.9 },
+  { year: 1993, stocks: 9.97, bonds: 14.21, inflation: 2.7 },
+  { year: 1994, stocks: 1.33, bonds: -8.04, inflation: 2.7 },
+  { year: 1995, stocks: 37.2, bonds: 23.48, inflation: 2.5 },
+  { year: 1996, stocks: 22.68, bonds: 1.43, inflation: 3.3 },
+  { year: 1997, stocks: 33.1, bonds: 9.94, inflation: 1.7 },
+  { year: 1998, stocks: 28.34, bonds: 14.92, inflation: 1.6 },
+  { year: 1999, stocks: 20.89, bonds: -8.25, inflation: 2.7 },
+  { year: 2000, stocks: -9.03, bonds: 16.66, inflation: 3.4 },
+  { year: 2001, stocks: -11.85, bonds: 5.57, inflation: 1.6 },
+  { year: 2002, stocks: -21.97, bonds: 15.12, inflation: 2.4 },
+  { year: 2003, stocks: 28.36, bonds: 0.38, inflation: 1.9 },
+  { year: 2004, stocks: 10.74, bonds: 4.49, inflation: 3.3 },
+  { year: 2005, stocks: 4.83, bonds: 2.87, inflation: 3.4 },
+  { year: 2006, stocks: 15.61, bonds: 1.96, inflation: 2.5 },
+  { year: 2007, stocks: 5.48, bonds: 10.21, inflation: 4.1 },
+  { year: 2008, stocks: -36.55, bonds: 20.1, inflation: 0.1 },
+  { year: 2009, stocks: 25.94, bonds: -11.12, inflation: 2.7 },
+  { year: 2010, stocks: 14.82, bonds: 8.46, inflation: 1.5 },
+  { year: 2011, stocks: 2.1, bonds: 16.04, inflation: 3 },
+  { year: 2012, stocks: 15.89, bonds: 2.97, inflation: 1.7 },
+  { year: 2013, stocks: 32.15, bonds: -9.1, inflation: 1.5 },
+  { year: 2014, stocks: 13.52, bonds: 10.75, inflation: 0.8 },
+  { year: 2015, stocks: 1.38, bonds: 1.28, inflation: 0.7 },
+  { year: 2016, stocks: 11.77, bonds: 0.69, inflation: 2.1 },
+  { year: 2017, stocks: 21.61, bonds: 2.8, inflation: 2.1 },
+  { year: 2018, stocks: -4.23, bonds: -0.02, inflation: 1.9 },
+  { year: 2019, stocks: 31.21, bonds: 9.64, inflation: 2.3 },
+  { year: 2020, stocks: 18.02, bonds: 11.33, inflation: 1.4 },
+  { year: 2021, stocks: 28.47, bonds: -4.42, inflation: 7 },
+  { year: 2022, stocks: -18.04, bonds: -17.83, inflation: 6.5 },
+  { year: 2023, stocks: 26.06, bonds: 3.88, inflation: 3.4 },
+  { year: 2024, stocks: 24.88, bonds: -1.64, inflation: 2.9 },
+];
@@ -0,0 +1,193 @@
+import {
+  calculateRetirementSavingsProjectionWithOverrides,
+  type RetirementSavingsInput,
+  type RetirementSavingsYearOverrides,
+} from './savings';
+
+// --- Types ---
+export interface ReturnDistribution {
+  mean: number;                 // percent per year
+  standardDeviation: number;    // percent per year
+  degreesOfFreedom?: number;    // Student-t fat tails (must be > 2); normal when omitted
+}
+
+export interface MonteCarloInput {
+  savings: RetirementSavingsInput;
+  distribution: ReturnDistribution;
+  trials: number;
+  seed?: number;
+}
+
+export interface MonteCarloPercentileRow {
+  year: number;
+  age: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface MonteCarloDepletionAge {
+  age: number;
+  trials: number;
+  probability: number;
+}
+
+export interface MonteCarloResult {
+  trials: number;
+  successProbability: number;          // share of trials whose balance never runs out
+  percentiles: MonteCarloPercentileRow[];   // ending balance per year
+  depletionAges: MonteCarloDepletionAge[];
+}
+
+export interface MonteCarloValidationError {
+  field: keyof MonteCarloInput;
+  message: string;
+}
+
+export function validateMonteCarloInput(
+  input: MonteCarloInput
+): MonteCarloValidationError[] {
+  const errors: MonteCarloValidationError[] = [];
+  const { distribution, trials, seed } = input;
+  const { standardDeviation, degreesOfFreedom } = distribution;
+
+  if (!Number.isInteger(trials) || trials < 1) errors.push({ field: "trials", message: "Trials must be a positive whole number" });
+  if (standardDeviation < 0) errors.push({ field: "distribution", message: "Standard deviation cannot be negative" });
+  if (degreesOfFreedom !== undefined && degreesOfFreedom <= 2) errors.push({ field: "distribution", message: "Degrees of freedom must be greater than 2" });
+  if (seed !== undefined && !Number.isInteger(seed)) errors.push({ field: "seed", message: "Seed must be a whole number" });
+
+  return errors;
+}
+
+// --- Simulation ---
+// Each trial replaces the yield of every year with a random draw, except years whose override
+// already fixes the yield or the ending balance. Annual returns are floored at -100%. A trial
+// fails when the balance runs out at or after withdrawStartAge.
+export function calculateRetirementSavingsMonteCarlo(
+  input: MonteCarloInput
+): MonteCarloResult {
+  const { savings, distribution, trials, seed = 1 } = input;
+
+  const errors = validateMonteCarloInput(input);
+  if (errors.length > 0) {
+    const err = new Error("Monte Carlo input validation failed");
+    (err as any).validationErrors = errors;
+    throw err;
+  }
+
+  const random = createSeededRandom(seed);
+  const { startYear, birthYear, lifeExpectancyAge, yearOverrides = {} } = savings;
+  const yearsToProject = birthYear + lifeExpectancyAge - startYear + 1;
+
+  const balancesByYear: number[][] = Array.from({ length: Math.max(yearsToProject, 0) }, () => []);
+  const depletionCounts: Record<number, number> = {};
+  let successes = 0;
+
+  for (let t = 0; t < trials; t++) {
+    const trialOverrides: RetirementSavingsYearOverrides = {};
+
+    for (let i = 0; i < yearsToProject; i++) {
+      const year = startYear + i;
+      const override = yearOverrides[year] ?? {};
+      const drawn = Math.max(drawReturn(distribution, random), -100);
+
+      trialOverrides[year] =
+        override.yieldPercent !== undefined || override.endingBalance !== undefined
+          ? override
+          : { ...override, yieldPercent: drawn };
+    }
+
+    const rows = calculateRetirementSavingsProjectionWithOverrides({ ...savings, yearOverrides: trialOverrides });
+    const depleted = rows.find((row) => row.age >= savings.withdrawStartAge && row.endingBalance <= 0);
+
+    if (depleted) depletionCounts[depleted.age] = (depletionCounts[depleted.age] ?? 0) + 1;
+    else successes++;
+
+    rows.forEach((row, i) => balancesByYear[i]?.push(row.endingBalance));
+  }
+
+  const percentiles = balancesByYear.map((balances, i) => {
+    const sorted = [...balances].sort((a, b) => a - b);
+    return {
+      year: startYear + i,
+      age: startYear + i - birthYear,
+      p10: percentile(sorted, 10),
+      p25: percentile(sorted, 25),
+      p50: percentile(sorted, 50),
+      p75: percentile(sorted, 75),
+      p90: percentile(sorted, 90),
+    };
+  });
+
+  const depletionAges = Object.entries(depletionCounts)
+    .map(([age, count]) => ({ age: Number(age), trials: count, probability: count / trials }))
+    .sort((a, b) => a.age - b.age);
+
+  return {
+    trials,
+    successProbability: successes / trials,
+    percentiles,
+    depletionAges,
+  };
+}
+
+// --- Helpers ---
+// mulberry32: small, fast PRNG so a seed always reproduces the same trials
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Box-Muller transform
+function drawStandardNormal(random: () => number): number {
+  const u1 = random() || Number.MIN_VALUE;
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+// Marsaglia-Tsang method, shape >= 1
+function drawGamma(shape: number, random: () => number): number {
+  if (shape < 1) return drawGamma(shape + 1, random) * Math.pow(random() || Number.MIN_VALUE, 1 / shape);
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const x = drawStandardNormal(random);
+    const v = Math.pow(1 + c * x, 3);
+    if (v <= 0) continue;
+    const u = random();
+    if (Math.log(u || Number.MIN_VALUE) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+// Student-t draws are rescaled so the standard deviation matches the input
+function drawReturn(distribution: ReturnDistribution, random: () => number): number {
+  const { mean, standardDeviation, degreesOfFreedom } = distribution;
+  const z = drawStandardNormal(random);
+
+  if (degreesOfFreedom === undefined) return mean + standardDeviation * z;
+
+  const chiSquared = 2 * drawGamma(degreesOfFreedom / 2, random);
+  const t = z / Math.sqrt(chiSquared / degreesOfFreedom);
+  return mean + standardDeviation * t * Math.sqrt((degreesOfFreedom - 2) / degreesOfFreedom);
+}
+
+// Linear interpolation between closest ranks
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const lowerValue = sorted[lower] ?? 0;
+  const upperValue = sorted[upper] ?? lowerValue;
+  return lowerValue + (upperValue - lowerValue) * (rank - lower);
+}
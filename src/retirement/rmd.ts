@@ -0,0 +1,43 @@
+import { APPROXIMATE_JOINT_LIFE_PERIODS } from './jointLifeTable';
+
+// --- Data ---
+// IRS Uniform Lifetime Table (Pub. 590-B, Table III), effective for distribution years from 2022
+export const UNIFORM_LIFETIME_TABLE: Record<number, number> = {
+  72: 27.4, 73: 26.5, 74: 25.5, 75: 24.6, 76: 23.7, 77: 22.9, 78: 22.0, 79: 21.1,
+  80: 20.2, 81: 19.4, 82: 18.5, 83: 17.7, 84: 16.8, 85: 16.0, 86: 15.2, 87: 14.4,
+  88: 13.7, 89: 12.9, 90: 12.2, 91: 11.5, 92: 10.8, 93: 10.1, 94: 9.5, 95: 8.9,
+  96: 8.4, 97: 7.8, 98: 7.3, 99: 6.8, 100: 6.4, 101: 6.0, 102: 5.6, 103: 5.2,
+  104: 4.9, 105: 4.6, 106: 4.3, 107: 4.1, 108: 3.9, 109: 3.7, 110: 3.5, 111: 3.4,
+  112: 3.3, 113: 3.1, 114: 3.0, 115: 2.9, 116: 2.8, 117: 2.7, 118: 2.5, 119: 2.3,
+  120: 2.0,
+};
+
+// --- RMD Rules ---
+// SECURE 2.0 start ages: 73 for those born 1951-1959, 75 for 1960 and later (72 before 1951)
+export function getRmdStartAge(birthYear: number): number {
+  if (birthYear >= 1960) return 75;
+  if (birthYear >= 1951) return 73;
+  return 72;
+}
+
+// Distribution period for the owner's age in the distribution year. A spouse more than 10 years
+// younger uses approximate joint and last survivor periods instead (see APPROXIMATE_JOINT_LIFE_PERIODS);
+// spouses under 20 read the age-20 column.
+export function calculateRmdDivisor(age: number, spouseAge?: number): number {
+  const ownerAge = Math.min(Math.max(age, 72), 120);
+  const uniform = UNIFORM_LIFETIME_TABLE[ownerAge] ?? 2.0;
+
+  if (spouseAge === undefined || age - spouseAge <= 10) return uniform;
+
+  return APPROXIMATE_JOINT_LIFE_PERIODS[ownerAge]?.[Math.max(spouseAge, 20) - 20] ?? uniform;
+}
+
+export function calculateRequiredMinimumDistribution(
+  priorYearEndBalance: number,
+  age: number,
+  birthYear: number,
+  spouseAge?: number
+): number {
+  if (age < getRmdStartAge(birthYear) || priorYearEndBalance <= 0) return 0;
+  return priorYearEndBalance / calculateRmdDivisor(age, spouseAge);
+}
@@ -1,3 +1,20 @@
+import {
+  calculateEmployerMatch,
+  getEmployeeContributionLimit,
+  type ContributionLimitOptions,
+  type EmployerMatchFormula,
+} from './contributionLimits';
+import { calculateInvestmentFees, validateInvestmentFees, type InvestmentFees } from './fees';
+import {
+  calculateGlidePathAllocation,
+  calculatePortfolioReturn,
+  driftAllocation,
+  validateAssetAllocation,
+  type Allocation,
+  type AssetAllocationOptions,
+} from './glidePath';
+import { calculateRequiredMinimumDistribution } from './rmd';
+
 // --- Types ---
 export interface RetirementSavingsInput {
   startYear: number;
@@ -9,9 +26,55 @@ export interface RetirementSavingsInput {
   contributionIncreaseRate: number;  
   withdrawStartAge: number;
   lifeExpectancyAge: number;
+  applyRequiredMinimumDistributions?: boolean;
+  spouseBirthYear?: number;          // sole beneficiary spouse, for the Joint Life table
+  withdrawalStrategy?: WithdrawalStrategy;
+  contributionLimits?: ContributionLimitOptions;   // caps the employee contribution each year
+  salary?: number;                   // needed for employerMatch
+  salaryIncreaseRate?: number;
+  employerMatch?: EmployerMatchFormula;
+  fees?: InvestmentFees;             // deducted from the beginning balance each year
+  simulationFrequency?: 'annual' | 'monthly';
+  birthMonth?: number;               // 1-12, monthly simulation retires in this month
+  payPeriodsPerYear?: number;        // monthly simulation contribution timing, default 12
+  assetAllocation?: AssetAllocationOptions;   // blended yield replaces estimatedYield
   yearOverrides?: RetirementSavingsYearOverrides;
 }
 
+// All strategies start from estimatedWithdrawRate percent of the first withdrawal year's balance
+export type WithdrawalStrategy =
+  | { type: 'fixedPercent' }
+  | { type: 'fixedReal'; inflationRate: number }
+  | {
+      type: 'guytonKlinger';
+      inflationRate: number;
+      guardrailPercent?: number;      // default 20, relative to the initial withdrawal rate
+      adjustmentPercent?: number;     // default 10
+    }
+  | {
+      type: 'vanguardDynamic';
+      inflationRate: number;
+      ceilingPercent?: number;        // default 5, real increase over last year's spending
+      floorPercent?: number;          // default 2.5, real decrease from last year's spending
+    }
+  | { type: 'vpw'; expectedReturn?: number }   // defaults to estimatedYield
+  | { type: 'oneOverN' };
+
+export type WithdrawalRule =
+  | 'fixedPercent'
+  | 'initial'
+  | 'inflationAdjusted'
+  | 'inflationSkipped'
+  | 'capitalPreservation'
+  | 'prosperity'
+  | 'ceiling'
+  | 'floor'
+  | 'dynamic'
+  | 'vpw'
+  | 'oneOverN'
+  | 'override'
+  | 'requiredMinimumDistribution';
+
 export type RetirementSavingsYearOverrides = Record<number, RetirementSavingsOverride>;
 
 export interface RetirementSavingsOverride {
@@ -31,10 +94,30 @@ export interface RetirementSavingsProjectionRow {
   withdrawRate: number;
   monthlyWithdraw: number;
   annualWithdraw: number;
+  employeeContribution: number;
+  employerContribution: number;
+  requiredMinimumDistribution: number;
+  requiredMinimumDistributionTopUp: number;   // withdrawn above the planned amount to meet the RMD
+  withdrawalShortfall: number;                // planned withdrawal the balance could not cover
+  fees: number;
   endingBalance: number;
+  withdrawalRule?: WithdrawalRule;
+  allocation?: Allocation;
   hasOverride?: boolean;
 }
 
+export interface FeeImpactReport {
+  projection: RetirementSavingsProjectionRow[];
+  baseline: RetirementSavingsProjectionRow[];   // same input without fees
+  totalFees: number;
+  endingBalance: number;
+  baselineEndingBalance: number;
+  totalWithdrawals: number;
+  baselineTotalWithdrawals: number;
+  lostGrowth: number;           // growth the fees would have earned
+  lifetimeCost: number;         // totalFees + lostGrowth
+}
+
 export interface RetirementSavingsValidationError {
   field: keyof RetirementSavingsInput;
   message: string;
@@ -54,6 +137,15 @@ export function validateRetirementSavingsInput(
     contributionIncreaseRate,
     withdrawStartAge,
     lifeExpectancyAge,
+    spouseBirthYear,
+    withdrawalStrategy,
+    salary = 0,
+    salaryIncreaseRate = 0,
+    employerMatch,
+    fees,
+    birthMonth = 1,
+    payPeriodsPerYear = 12,
+    assetAllocation,
   } = input;
 
   if (startYear < 1900) errors.push({ field: "startYear", message: "Start Year cannot be before 1900" });
@@ -66,6 +158,28 @@ export function validateRetirementSavingsInput(
   if (withdrawStartAge < 0 || withdrawStartAge > 80) errors.push({ field: "withdrawStartAge", message: "Withdraw start age must be between 0 and 80" });
   if (lifeExpectancyAge < 0 || lifeExpectancyAge > 150) errors.push({field: "lifeExpectancyAge", message: "Life Expectancy Age must be between 0 and 150"});
   if ((birthYear+lifeExpectancyAge) < startYear) errors.push({field: "lifeExpectancyAge", message: "Life Expectancy Age must be after Start Year"});
+  if (spouseBirthYear !== undefined && spouseBirthYear < 1900) errors.push({ field: "spouseBirthYear", message: "Spouse Birth Year cannot be before 1900" });
+
+  if (salary < 0) errors.push({ field: "salary", message: "Salary cannot be negative" });
+  if (salaryIncreaseRate < -100) errors.push({ field: "salaryIncreaseRate", message: "Salary increase rate cannot be less than -100%" });
+  if (employerMatch && salary <= 0) errors.push({ field: "salary", message: "Salary is required for an employer match" });
+  if (employerMatch && ((employerMatch.automaticPercent ?? 0) < 0 || employerMatch.tiers.some((t) => t.matchPercent < 0 || t.salaryPercent < 0)))
+    errors.push({ field: "employerMatch", message: "Employer match percents cannot be negative" });
+
+  if (!Number.isInteger(birthMonth) || birthMonth < 1 || birthMonth > 12) errors.push({ field: "birthMonth", message: "Birth month must be between 1 and 12" });
+  if (!Number.isInteger(payPeriodsPerYear) || payPeriodsPerYear < 1) errors.push({ field: "payPeriodsPerYear", message: "Pay periods per year must be a positive whole number" });
+  if (fees) validateInvestmentFees(fees).forEach((message) => errors.push({ field: "fees", message }));
+  if (assetAllocation) validateAssetAllocation(assetAllocation).forEach((message) => errors.push({ field: "assetAllocation", message }));
+  if (withdrawalStrategy && 'inflationRate' in withdrawalStrategy && withdrawalStrategy.inflationRate < -100)
+    errors.push({ field: "withdrawalStrategy", message: "Inflation rate cannot be less than -100%" });
+  if (withdrawalStrategy?.type === 'guytonKlinger' &&
+      ((withdrawalStrategy.guardrailPercent ?? 20) < 0 || (withdrawalStrategy.adjustmentPercent ?? 10) < 0))
+    errors.push({ field: "withdrawalStrategy", message: "Guardrail and adjustment percents cannot be negative" });
+  if (withdrawalStrategy?.type === 'vanguardDynamic' &&
+      ((withdrawalStrategy.ceilingPercent ?? 5) < 0 || (withdrawalStrategy.floorPercent ?? 2.5) < 0))
+    errors.push({ field: "withdrawalStrategy", message: "Ceiling and floor percents cannot be negative" });
+  if (withdrawalStrategy?.type === 'vpw' && (withdrawalStrategy.expectedReturn ?? 0) <= -100)
+    errors.push({ field: "withdrawalStrategy", message: "Expected return must be greater than -100%" });
 
   return errors;
 }
@@ -75,6 +189,36 @@ export function calculateRetirementSavingsProjection(input: RetirementSavingsInp
   return calculateRetirementSavingsProjectionWithOverrides({ ...input, yearOverrides: {} });
 }
 
+// Lifetime cost of fees: what the zero-fee baseline ends with and withdraws beyond the projection
+// with fees. This includes the growth the fees would have earned, not just the fees paid.
+export function calculateFeeImpact(input: RetirementSavingsInput): FeeImpactReport {
+  const { fees: _fees, ...baselineInput } = input;
+  const projection = calculateRetirementSavingsProjectionWithOverrides(input);
+  const baseline = calculateRetirementSavingsProjectionWithOverrides(baselineInput);
+
+  const sum = (rows: RetirementSavingsProjectionRow[], field: 'fees' | 'annualWithdraw') =>
+    rows.reduce((total, row) => total + row[field], 0);
+
+  const totalFees = sum(projection, 'fees');
+  const endingBalance = projection[projection.length - 1]?.endingBalance ?? 0;
+  const baselineEndingBalance = baseline[baseline.length - 1]?.endingBalance ?? 0;
+  const totalWithdrawals = sum(projection, 'annualWithdraw');
+  const baselineTotalWithdrawals = sum(baseline, 'annualWithdraw');
+  const lifetimeCost = (baselineEndingBalance + baselineTotalWithdrawals) - (endingBalance + totalWithdrawals);
+
+  return {
+    projection,
+    baseline,
+    totalFees,
+    endingBalance,
+    baselineEndingBalance,
+    totalWithdrawals,
+    baselineTotalWithdrawals,
+    lostGrowth: lifetimeCost - totalFees,
+    lifetimeCost,
+  };
+}
+
 export function calculateRetirementSavingsProjectionWithOverrides(
   input: RetirementSavingsInput
 ): RetirementSavingsProjectionRow[] {
@@ -88,6 +232,18 @@ export function calculateRetirementSavingsProjectionWithOverrides(
     contributionIncreaseRate,
     withdrawStartAge,
     lifeExpectancyAge,
+    applyRequiredMinimumDistributions = false,
+    spouseBirthYear,
+    withdrawalStrategy = { type: 'fixedPercent' },
+    contributionLimits,
+    salary = 0,
+    salaryIncreaseRate = 0,
+    employerMatch,
+    fees: investmentFees,
+    simulationFrequency = 'annual',
+    birthMonth = 1,
+    payPeriodsPerYear = 12,
+    assetAllocation,
     yearOverrides = {}
   } = input;
 
@@ -101,6 +257,9 @@ export function calculateRetirementSavingsProjectionWithOverrides(
   let balance = Math.max(initialBalance, 0);
   let contribution = Math.max(initialContribution, 0);
   const yearsToProject = birthYear + lifeExpectancyAge - startYear + 1;
+  let previousWithdraw: number | null = null;
+  let initialWithdrawRate = estimatedWithdrawRate;
+  let currentAllocation: Allocation | undefined;
   
   const rows: RetirementSavingsProjectionRow[] = [];
 
@@ -108,6 +267,11 @@ export function calculateRetirementSavingsProjectionWithOverrides(
     const year = startYear + i;
     const age = year - birthYear;
     const isWithdrawing = age >= withdrawStartAge;
+    const isMonthly = simulationFrequency === 'monthly';
+
+    // Month withdrawals start (13 = not this year). Monthly simulation retires in the birth month.
+    const retirementMonth = !isWithdrawing ? 13 : isMonthly && age === withdrawStartAge ? birthMonth : 1;
+    const isContributing = retirementMonth > 1;
 
     const override = yearOverrides[year] || {};
     const hasOverride =
@@ -126,19 +290,40 @@ export function calculateRetirementSavingsProjectionWithOverrides(
       contribution = Math.max(override.contribution, 0);
     } else {
       if (i > 0) {
-        contribution = isWithdrawing
+        contribution = !isContributing
           ? 0
           : contribution * (1 + contributionIncreaseRate / 100);
-      } else if (isWithdrawing) {
+      } else if (!isContributing) {
         contribution = 0;
       }
     }
 
+    // Share of the year's contribution made before retiring; overrides are whole-year amounts
+    const contributingMonths = isMonthly && override.contribution === undefined ? retirementMonth - 1 : 12;
+    const withdrawalMonths = 13 - retirementMonth;
+
+    //
+    // ----- Contribution limits and employer match -----
+    //
+    const plannedContribution = contribution * contributingMonths / 12;
+    const employeeContribution = contributionLimits
+      ? Math.min(plannedContribution, getEmployeeContributionLimit(year, age, contributionLimits))
+      : plannedContribution;
+    const employerContribution = employerMatch && isContributing
+      ? calculateEmployerMatch(
+          salary * Math.pow(1 + salaryIncreaseRate / 100, i) * contributingMonths / 12,
+          employeeContribution,
+          employerMatch
+        )
+      : 0;
+    const totalContribution = employeeContribution + employerContribution;
+
     //
     // ----- Withdrawal logic -----
     //
     let annualWithdraw = 0;
     let withdrawRate = 0;
+    let withdrawalRule: WithdrawalRule | undefined;
 
     if (isWithdrawing) {
       if (override.annualWithdraw !== undefined) {
@@ -147,26 +332,114 @@ export function calculateRetirementSavingsProjectionWithOverrides(
           beginningBalance > 0
             ? (annualWithdraw / beginningBalance) * 100
             : 0;
+        withdrawalRule = 'override';
       } else if (override.withdrawRate !== undefined) {
         withdrawRate = override.withdrawRate;
         annualWithdraw = (withdrawRate / 100) * beginningBalance;
+        withdrawalRule = 'override';
       } else {
-        withdrawRate = estimatedWithdrawRate;
-        annualWithdraw = (withdrawRate / 100) * beginningBalance;
+        const strategyWithdrawal = calculateStrategyWithdrawal(withdrawalStrategy, {
+          beginningBalance,
+          remainingYears: lifeExpectancyAge - age + 1,
+          estimatedYield,
+          estimatedWithdrawRate,
+          initialWithdrawRate,
+          previousWithdraw,
+          previousYield: rows[rows.length - 1]?.yieldPercent ?? 0,
+        });
+        annualWithdraw = strategyWithdrawal.annualWithdraw;
+        withdrawRate =
+          withdrawalStrategy.type === 'fixedPercent'
+            ? estimatedWithdrawRate
+            : beginningBalance > 0
+              ? (annualWithdraw / beginningBalance) * 100
+              : 0;
+        withdrawalRule = strategyWithdrawal.rule;
       }
+
+      if (previousWithdraw === null) initialWithdrawRate = withdrawRate;
+    }
+
+    // Strategies work in full-year amounts; a mid-year retirement withdraws for the remaining months
+    const fullYearWithdraw = annualWithdraw;
+    annualWithdraw = annualWithdraw * withdrawalMonths / 12;
+
+    //
+    // ----- Required minimum distribution -----
+    //
+    const requiredMinimumDistribution = applyRequiredMinimumDistributions
+      ? calculateRequiredMinimumDistribution(
+          beginningBalance,
+          age,
+          birthYear,
+          spouseBirthYear !== undefined ? year - spouseBirthYear : undefined
+        )
+      : 0;
+
+    const requiredMinimumDistributionTopUp = Math.max(requiredMinimumDistribution - annualWithdraw, 0);
+    if (requiredMinimumDistributionTopUp > 0) {
+      annualWithdraw = requiredMinimumDistribution;
+      withdrawRate = (annualWithdraw / beginningBalance) * 100;
+      withdrawalRule = 'requiredMinimumDistribution';
+    }
+
+    // The account cannot pay out more than it holds; the unpaid rest is reported as a shortfall
+    const withdrawalShortfall = Math.max(annualWithdraw - beginningBalance, 0);
+    if (withdrawalShortfall > 0) {
+      annualWithdraw = beginningBalance;
+      withdrawRate = beginningBalance > 0 ? 100 : 0;
+    }
+
+    // Strategies continue from their own full-year amount, not the RMD top-up
+    if (isWithdrawing) previousWithdraw = fullYearWithdraw;
+
+    //
+    // ----- Asset allocation -----
+    //
+    let allocation: Allocation | undefined;
+    if (assetAllocation) {
+      const { assetClasses, glidePath, rebalanceEveryYears = 1 } = assetAllocation;
+      allocation =
+        currentAllocation === undefined || (rebalanceEveryYears > 0 && i % rebalanceEveryYears === 0)
+          ? calculateGlidePathAllocation(glidePath, age, year)
+          : driftAllocation(currentAllocation, assetClasses);
+      currentAllocation = allocation;
     }
 
     //
     // ----- Yield logic -----
     //
-    let yieldPercent = override.yieldPercent ?? estimatedYield;
+    let yieldPercent =
+      override.yieldPercent ??
+      (allocation && assetAllocation
+        ? calculatePortfolioReturn(allocation, assetAllocation.assetClasses).expectedReturn
+        : estimatedYield);
     let yieldAmount = (yieldPercent / 100) * beginningBalance;
 
+    //
+    // ----- Fees -----
+    //
+    let fees = investmentFees ? calculateInvestmentFees(beginningBalance, investmentFees) : 0;
+
     //
     // ----- Normal ending balance (before override adjustments) -----
     //
-    let endingBalance =
-      beginningBalance + yieldAmount + contribution - annualWithdraw;
+    let endingBalance = Math.max(
+      beginningBalance + yieldAmount + totalContribution - annualWithdraw - fees,
+      0
+    );
+
+    if (isMonthly) {
+      ({ yieldAmount, fees, endingBalance } = simulateMonths(beginningBalance, {
+        yieldPercent,
+        contribution: totalContribution,
+        contributingMonths,
+        payPeriodsPerYear,
+        annualWithdraw,
+        withdrawalMonths,
+        investmentFees,
+      }));
+    }
 
     //
     // ----- endingBalance Override (Highest precedence) -----
@@ -175,14 +448,15 @@ export function calculateRetirementSavingsProjectionWithOverrides(
       const forcedEnding = Math.max(override.endingBalance, 0);
 
       // Solve for yieldPercent needed to reach forced ending
-      // ending = beg + (beg * y%) + contrib − withdraw
-      // → y% = (ending - beg - contrib + withdraw) / beg * 100
+      // ending = beg + (beg * y%) + contrib − withdraw − fees
+      // → y% = (ending - beg - contrib + withdraw + fees) / beg * 100
       if (beginningBalance > 0) {
         yieldPercent =
           ((forcedEnding -
             beginningBalance -
-            contribution +
-            annualWithdraw) /
+            totalContribution +
+            annualWithdraw +
+            fees) /
             beginningBalance) *
           100;
 
@@ -196,18 +470,26 @@ export function calculateRetirementSavingsProjectionWithOverrides(
       endingBalance = forcedEnding;
     }
 
-    const monthlyWithdraw = annualWithdraw / 12;
+    const monthlyWithdraw = annualWithdraw / (withdrawalMonths > 0 ? withdrawalMonths : 12);
 
     rows.push({
       year,
       age,
       beginningBalance,
-      contribution,
+      contribution: totalContribution,
       yieldPercent: Math.round(yieldPercent * 100) / 100,
       withdrawRate: Math.round(withdrawRate * 100) / 100,
       monthlyWithdraw,
       annualWithdraw,
+      employeeContribution,
+      employerContribution,
+      requiredMinimumDistribution,
+      requiredMinimumDistributionTopUp,
+      withdrawalShortfall,
+      fees,
       endingBalance,
+      ...(withdrawalRule !== undefined && { withdrawalRule }),
+      ...(allocation !== undefined && { allocation }),
       hasOverride
     });
 
@@ -216,3 +498,146 @@ export function calculateRetirementSavingsProjectionWithOverrides(
 
   return rows;
 }
+
+// --- Helpers ---
+interface MonthlySimulation {
+  yieldPercent: number;
+  contribution: number;             // total for the year, spread over the contributing months
+  contributingMonths: number;       // the first months of the year
+  payPeriodsPerYear: number;
+  annualWithdraw: number;           // total for the year, spread over the withdrawal months
+  withdrawalMonths: number;         // the last months of the year
+  investmentFees: InvestmentFees | undefined;
+}
+
+// Withdrawals at the start of each month, then fees and growth at the monthly equivalent of the
+// annual yield, then that month's paychecks at month end
+function simulateMonths(
+  beginningBalance: number,
+  simulation: MonthlySimulation
+): { yieldAmount: number; fees: number; endingBalance: number } {
+  const {
+    yieldPercent,
+    contribution,
+    contributingMonths,
+    payPeriodsPerYear,
+    annualWithdraw,
+    withdrawalMonths,
+    investmentFees,
+  } = simulation;
+
+  const monthlyRate = Math.pow(1 + yieldPercent / 100, 1 / 12) - 1;
+  const paychecks = (months: number) => Math.floor(months * payPeriodsPerYear / 12);
+  const contributingPaychecks = paychecks(contributingMonths);
+  // An RMD taken outside the withdrawal months is spread over the whole year
+  const withdrawingMonths = withdrawalMonths > 0 ? withdrawalMonths : 12;
+
+  let balance = beginningBalance;
+  let yieldAmount = 0;
+  let fees = 0;
+
+  for (let month = 1; month <= 12; month++) {
+    if (month > 12 - withdrawingMonths) balance -= annualWithdraw / withdrawingMonths;
+
+    const monthFee = investmentFees ? calculateInvestmentFees(balance, investmentFees) / 12 : 0;
+    const growth = balance * monthlyRate;
+    fees += monthFee;
+    yieldAmount += growth;
+    balance += growth - monthFee;
+
+    if (month <= contributingMonths) {
+      balance += contributingPaychecks > 0
+        ? contribution * (paychecks(month) - paychecks(month - 1)) / contributingPaychecks
+        : contribution / contributingMonths;
+    }
+  }
+
+  return { yieldAmount, fees, endingBalance: Math.max(balance, 0) };
+}
+
+interface StrategyContext {
+  beginningBalance: number;
+  remainingYears: number;           // including the current year
+  estimatedYield: number;
+  estimatedWithdrawRate: number;
+  initialWithdrawRate: number;
+  previousWithdraw: number | null;  // null in the first withdrawal year
+  previousYield: number;
+}
+
+function calculateStrategyWithdrawal(
+  strategy: WithdrawalStrategy,
+  context: StrategyContext
+): { annualWithdraw: number; rule: WithdrawalRule } {
+  const {
+    beginningBalance,
+    remainingYears,
+    estimatedYield,
+    estimatedWithdrawRate,
+    initialWithdrawRate,
+    previousWithdraw,
+    previousYield,
+  } = context;
+  const percentOfBalance = (estimatedWithdrawRate / 100) * beginningBalance;
+
+  switch (strategy.type) {
+    case 'fixedPercent':
+      return { annualWithdraw: percentOfBalance, rule: 'fixedPercent' };
+
+    // Bengen: the first year's amount, raised each year by inflation
+    case 'fixedReal': {
+      if (previousWithdraw === null) return { annualWithdraw: percentOfBalance, rule: 'initial' };
+      return { annualWithdraw: previousWithdraw * (1 + strategy.inflationRate / 100), rule: 'inflationAdjusted' };
+    }
+
+    // Guyton-Klinger: skip the inflation raise after a losing year when the rate is above the initial
+    // rate; cut by adjustmentPercent above the upper guardrail (not in the last 15 years) and raise
+    // by adjustmentPercent below the lower guardrail
+    case 'guytonKlinger': {
+      if (previousWithdraw === null) return { annualWithdraw: percentOfBalance, rule: 'initial' };
+
+      const { inflationRate, guardrailPercent = 20, adjustmentPercent = 10 } = strategy;
+      const currentRate = beginningBalance > 0 ? (previousWithdraw / beginningBalance) * 100 : Infinity;
+      const skipInflation = previousYield < 0 && currentRate > initialWithdrawRate;
+
+      let annualWithdraw = skipInflation ? previousWithdraw : previousWithdraw * (1 + inflationRate / 100);
+      let rule: WithdrawalRule = skipInflation ? 'inflationSkipped' : 'inflationAdjusted';
+      const rate = beginningBalance > 0 ? (annualWithdraw / beginningBalance) * 100 : Infinity;
+
+      if (rate > initialWithdrawRate * (1 + guardrailPercent / 100) && remainingYears > 15) {
+        annualWithdraw *= 1 - adjustmentPercent / 100;
+        rule = 'capitalPreservation';
+      } else if (rate < initialWithdrawRate * (1 - guardrailPercent / 100)) {
+        annualWithdraw *= 1 + adjustmentPercent / 100;
+        rule = 'prosperity';
+      }
+
+      return { annualWithdraw, rule };
+    }
+
+    // Vanguard dynamic spending: percent of balance, kept within a real ceiling and floor of last year's spending
+    case 'vanguardDynamic': {
+      if (previousWithdraw === null) return { annualWithdraw: percentOfBalance, rule: 'initial' };
+
+      const { inflationRate, ceilingPercent = 5, floorPercent = 2.5 } = strategy;
+      const inflated = previousWithdraw * (1 + inflationRate / 100);
+      const ceiling = inflated * (1 + ceilingPercent / 100);
+      const floor = inflated * (1 - floorPercent / 100);
+
+      if (percentOfBalance > ceiling) return { annualWithdraw: ceiling, rule: 'ceiling' };
+      if (percentOfBalance < floor) return { annualWithdraw: floor, rule: 'floor' };
+      return { annualWithdraw: percentOfBalance, rule: 'dynamic' };
+    }
+
+    // Variable percentage withdrawal: the start-of-year payment that spreads the balance over the remaining years
+    case 'vpw': {
+      const r = (strategy.expectedReturn ?? estimatedYield) / 100;
+      const n = Math.max(remainingYears, 1);
+      const rate = r === 0 ? 1 / n : r / ((1 + r) * (1 - Math.pow(1 + r, -n)));
+      return { annualWithdraw: beginningBalance * rate, rule: 'vpw' };
+    }
+
+    case 'oneOverN':
+      return { annualWithdraw: beginningBalance / Math.max(remainingYears, 1), rule: 'oneOverN' };
+  }
+}
@@ -0,0 +1,133 @@
+import {
+  calculateRetirementSavingsProjectionWithOverrides,
+  type RetirementSavingsInput,
+  type RetirementSavingsProjectionRow,
+} from './savings';
+
+// --- Types ---
+export interface RetirementSolverOptions {
+  targetEndingBalance?: number;    // minimum ending balance in every withdrawal year, default 0
+  tolerance?: number;              // bisection stops once the bracket is this narrow
+  maxIterations?: number;          // default 200
+}
+
+export interface RetirementSolverResult {
+  value: number | null;            // null when no value in the search range meets the target
+  projection: RetirementSavingsProjectionRow[];
+}
+
+export interface RetirementSolverValidationError {
+  field: 'withdrawalStrategy' | 'targetEndingBalance';
+  message: string;
+}
+
+// A percent-of-balance withdrawal never runs the balance out, so the maximum rate only means something
+// against a positive target or for strategies that carry a dollar amount forward
+export function validateMaxWithdrawRateInput(
+  input: RetirementSavingsInput,
+  options: RetirementSolverOptions = {}
+): RetirementSolverValidationError[] {
+  const errors: RetirementSolverValidationError[] = [];
+  const { targetEndingBalance = 0 } = options;
+  const { type } = input.withdrawalStrategy ?? { type: 'fixedPercent' };
+
+  if (type === 'vpw' || type === 'oneOverN')
+    errors.push({ field: "withdrawalStrategy", message: `The ${type} strategy does not use the withdrawal rate` });
+  if (type === 'fixedPercent' && targetEndingBalance <= 0)
+    errors.push({ field: "targetEndingBalance", message: "Target Ending Balance must be positive for fixed percent withdrawals" });
+
+  return errors;
+}
+
+// --- Solvers ---
+// Smallest initialContribution that meets the target, to the nearest cent by default
+export function solveRequiredContribution(
+  input: RetirementSavingsInput,
+  options: RetirementSolverOptions = {}
+): RetirementSolverResult {
+  const { targetEndingBalance = 0, tolerance = 0.01, maxIterations = 200 } = options;
+  const project = (initialContribution: number) =>
+    calculateRetirementSavingsProjectionWithOverrides({ ...input, initialContribution });
+  const meets = (contribution: number) => meetsTarget(project(contribution), input, targetEndingBalance);
+
+  if (meets(0)) return { value: 0, projection: project(0) };
+
+  // Grow the upper bound until it meets the target
+  let high = Math.max(input.initialContribution, 1000);
+  while (!meets(high)) {
+    high *= 2;
+    if (high > 1e12) return { value: null, projection: project(input.initialContribution) };
+  }
+
+  const value = bisect(0, high, (contribution) => !meets(contribution), tolerance, maxIterations).high;
+  return { value, projection: project(value) };
+}
+
+// Largest estimatedWithdrawRate (percent) that meets the target
+export function solveMaxWithdrawRate(
+  input: RetirementSavingsInput,
+  options: RetirementSolverOptions = {}
+): RetirementSolverResult {
+  const { targetEndingBalance = 0, tolerance = 0.0001, maxIterations = 200 } = options;
+
+  const errors = validateMaxWithdrawRateInput(input, options);
+  if (errors.length > 0) {
+    const err = new Error("Max Withdraw Rate input validation failed");
+    (err as any).validationErrors = errors;
+    throw err;
+  }
+
+  const project = (estimatedWithdrawRate: number) =>
+    calculateRetirementSavingsProjectionWithOverrides({ ...input, estimatedWithdrawRate });
+  const meets = (rate: number) => meetsTarget(project(rate), input, targetEndingBalance);
+
+  if (!meets(0)) return { value: null, projection: project(input.estimatedWithdrawRate) };
+  if (meets(100)) return { value: 100, projection: project(100) };
+
+  const value = bisect(0, 100, meets, tolerance, maxIterations).low;
+  return { value, projection: project(value) };
+}
+
+// Earliest whole withdrawStartAge from the current age up to 80 that meets the target
+export function solveEarliestWithdrawStartAge(
+  input: RetirementSavingsInput,
+  options: RetirementSolverOptions = {}
+): RetirementSolverResult {
+  const { targetEndingBalance = 0 } = options;
+  const currentAge = Math.max(input.startYear - input.birthYear, 0);
+
+  for (let withdrawStartAge = currentAge; withdrawStartAge <= 80; withdrawStartAge++) {
+    const candidate = { ...input, withdrawStartAge };
+    const projection = calculateRetirementSavingsProjectionWithOverrides(candidate);
+    if (meetsTarget(projection, candidate, targetEndingBalance)) return { value: withdrawStartAge, projection };
+  }
+
+  return { value: null, projection: calculateRetirementSavingsProjectionWithOverrides(input) };
+}
+
+// --- Helpers ---
+function meetsTarget(
+  rows: RetirementSavingsProjectionRow[],
+  input: RetirementSavingsInput,
+  targetEndingBalance: number
+): boolean {
+  return rows.every((row) =>
+    row.age < input.withdrawStartAge || (row.withdrawalShortfall === 0 && row.endingBalance >= targetEndingBalance)
+  );
+}
+
+// Narrows [low, high] while predicate(low) stays true and predicate(high) stays false
+function bisect(
+  low: number,
+  high: number,
+  predicate: (value: number) => boolean,
+  tolerance: number,
+  maxIterations: number
+): { low: number; high: number } {
+  for (let i = 0; i < maxIterations && high - low > tolerance; i++) {
+    const mid = (low + high) / 2;
+    if (predicate(mid)) low = mid;
+    else high = mid;
+  }
+  return { low, high };
+}
@@ -0,0 +1,294 @@
+import {
+  FEDERAL_TAX_2025,
+  calculateBracketCeiling,
+  calculateFederalIncomeTax,
+  type FilingStatus,
+} from './federalTax';
+import { calculateRequiredMinimumDistribution } from './rmd';
+
+// --- Types ---
+export type WithdrawalOrder = 'conventional' | 'proportional' | 'fillBracket';
+
+export interface TaxBucket {
+  balance: number;
+  annualContribution: number;
+  costBasis?: number;                // taxable account only; defaults to the balance
+}
+
+export interface TaxBucketSavingsInput {
+  startYear: number;
+  birthYear: number;
+  estimatedYield: number;
+  estimatedWithdrawRate: number;     // percent of the combined beginning balance
+  contributionIncreaseRate: number;
+  withdrawStartAge: number;
+  lifeExpectancyAge: number;
+  traditional: TaxBucket;
+  roth: TaxBucket;
+  taxable: TaxBucket;
+  withdrawalOrder: WithdrawalOrder;
+  filingStatus: FilingStatus;
+  fillBracketRate?: number;          // bracket to fill with traditional withdrawals, default 12
+  otherOrdinaryIncome?: number;      // pension and taxable Social Security in withdrawal years
+  taxBracketIndexRate?: number;      // annual percent indexing of 2025 brackets
+  applyRequiredMinimumDistributions?: boolean;
+  spouseBirthYear?: number;
+}
+
+export interface TaxBucketProjectionRow {
+  year: number;
+  age: number;
+  beginningBalance: number;
+  contribution: number;
+  traditionalWithdrawal: number;
+  rothWithdrawal: number;
+  taxableWithdrawal: number;
+  grossWithdrawal: number;
+  withdrawalShortfall: number;       // planned withdrawal the buckets could not cover
+  requiredMinimumDistribution: number;
+  capitalGains: number;
+  estimatedTax: number;
+  afterTaxSpending: number;
+  traditionalBalance: number;
+  rothBalance: number;
+  taxableBalance: number;
+  taxableCostBasis: number;
+  endingBalance: number;
+}
+
+export interface TaxBucketValidationError {
+  field: keyof TaxBucketSavingsInput;
+  message: string;
+}
+
+export function validateTaxBucketSavingsInput(
+  input: TaxBucketSavingsInput
+): TaxBucketValidationError[] {
+  const errors: TaxBucketValidationError[] = [];
+  const {
+    startYear,
+    birthYear,
+    estimatedYield,
+    estimatedWithdrawRate,
+    contributionIncreaseRate,
+    withdrawStartAge,
+    lifeExpectancyAge,
+    filingStatus,
+    fillBracketRate = 12,
+    otherOrdinaryIncome = 0,
+  } = input;
+
+  if (startYear < 1900) errors.push({ field: "startYear", message: "Start Year cannot be before 1900" });
+  if (birthYear < 1900) errors.push({ field: "birthYear", message: "Birth Year cannot be before 1900" });
+  if (estimatedYield < -100) errors.push({ field: "estimatedYield", message: "Estimated yield cannot be less than -100%" });
+  if (estimatedWithdrawRate < 0) errors.push({ field: "estimatedWithdrawRate", message: "Withdrawal rate cannot be negative" });
+  if (contributionIncreaseRate < -100) errors.push({ field: "contributionIncreaseRate", message: "Contribution increase rate cannot be less than -100%" });
+  if (withdrawStartAge < 0 || withdrawStartAge > 80) errors.push({ field: "withdrawStartAge", message: "Withdraw start age must be between 0 and 80" });
+  if (lifeExpectancyAge < 0 || lifeExpectancyAge > 150) errors.push({ field: "lifeExpectancyAge", message: "Life Expectancy Age must be between 0 and 150" });
+  if ((birthYear + lifeExpectancyAge) < startYear) errors.push({ field: "lifeExpectancyAge", message: "Life Expectancy Age must be after Start Year" });
+  if (otherOrdinaryIncome < 0) errors.push({ field: "otherOrdinaryIncome", message: "Other income cannot be negative" });
+  if (!FEDERAL_TAX_2025.ordinaryBrackets[filingStatus].some((b) => b.rate === fillBracketRate))
+    errors.push({ field: "fillBracketRate", message: "Fill bracket rate must match a federal tax bracket" });
+
+  (['traditional', 'roth', 'taxable'] as const).forEach((field) => {
+    const bucket = input[field];
+    if (bucket.balance < 0) errors.push({ field, message: "Balance cannot be negative" });
+    if (bucket.annualContribution < 0) errors.push({ field, message: "Contribution cannot be negative" });
+    if ((bucket.costBasis ?? 0) < 0) errors.push({ field, message: "Cost basis cannot be negative" });
+  });
+
+  return errors;
+}
+
+// --- Main Projection ---
+// Withdrawals of estimatedWithdrawRate percent of the combined balance are split across buckets by
+// withdrawalOrder. Traditional withdrawals and otherOrdinaryIncome are taxed as ordinary income,
+// gains on taxable withdrawals as long-term capital gains, and Roth withdrawals are tax free.
+// estimatedTax is the federal tax the withdrawals add on top of the tax on otherOrdinaryIncome, and
+// is paid out of the gross withdrawal.
+export function calculateTaxBucketSavingsProjection(
+  input: TaxBucketSavingsInput
+): TaxBucketProjectionRow[] {
+  const {
+    startYear,
+    birthYear,
+    estimatedYield,
+    estimatedWithdrawRate,
+    contributionIncreaseRate,
+    withdrawStartAge,
+    lifeExpectancyAge,
+    withdrawalOrder,
+    filingStatus,
+    fillBracketRate = 12,
+    otherOrdinaryIncome = 0,
+    taxBracketIndexRate = 0,
+    applyRequiredMinimumDistributions = false,
+    spouseBirthYear,
+  } = input;
+
+  const errors = validateTaxBucketSavingsInput(input);
+  if (errors.length > 0) {
+    const err = new Error("Tax Bucket Savings input validation failed");
+    (err as any).validationErrors = errors;
+    throw err;
+  }
+
+  let traditional = input.traditional.balance;
+  let roth = input.roth.balance;
+  let taxable = input.taxable.balance;
+  let costBasis = input.taxable.costBasis ?? input.taxable.balance;
+  let contributions = {
+    traditional: input.traditional.annualContribution,
+    roth: input.roth.annualContribution,
+    taxable: input.taxable.annualContribution,
+  };
+
+  const yearsToProject = birthYear + lifeExpectancyAge - startYear + 1;
+  const growth = 1 + estimatedYield / 100;
+  const rows: TaxBucketProjectionRow[] = [];
+
+  for (let i = 0; i < yearsToProject; i++) {
+    const year = startYear + i;
+    const age = year - birthYear;
+    const isWithdrawing = age >= withdrawStartAge;
+    const indexFactor = Math.pow(1 + taxBracketIndexRate / 100, year - FEDERAL_TAX_2025.year);
+    const beginningBalance = traditional + roth + taxable;
+
+    //
+    // ----- Contributions -----
+    //
+    if (isWithdrawing) {
+      contributions = { traditional: 0, roth: 0, taxable: 0 };
+    } else if (i > 0) {
+      const increase = 1 + contributionIncreaseRate / 100;
+      contributions = {
+        traditional: contributions.traditional * increase,
+        roth: contributions.roth * increase,
+        taxable: contributions.taxable * increase,
+      };
+    }
+
+    //
+    // ----- Withdrawals -----
+    //
+    const target = isWithdrawing ? beginningBalance * estimatedWithdrawRate / 100 : 0;
+    const headroom = calculateBracketCeiling(fillBracketRate, filingStatus, indexFactor) - otherOrdinaryIncome;
+    const withdrawals = allocateWithdrawal(target, { traditional, roth, taxable }, withdrawalOrder, headroom);
+
+    const requiredMinimumDistribution = applyRequiredMinimumDistributions
+      ? Math.min(
+          calculateRequiredMinimumDistribution(
+            traditional,
+            age,
+            birthYear,
+            spouseBirthYear !== undefined ? year - spouseBirthYear : undefined
+          ),
+          traditional
+        )
+      : 0;
+
+    // A larger RMD replaces withdrawals from the other buckets where possible
+    if (requiredMinimumDistribution > withdrawals.traditional) {
+      let excess = requiredMinimumDistribution - withdrawals.traditional;
+      withdrawals.traditional = requiredMinimumDistribution;
+      const fromTaxable = Math.min(excess, withdrawals.taxable);
+      withdrawals.taxable -= fromTaxable;
+      excess -= fromTaxable;
+      withdrawals.roth -= Math.min(excess, withdrawals.roth);
+    }
+
+    const gainRatio = taxable > 0 ? Math.max(1 - costBasis / taxable, 0) : 0;
+    const capitalGains = withdrawals.taxable * gainRatio;
+    costBasis = Math.max(costBasis - (withdrawals.taxable - capitalGains), 0);
+
+    const grossWithdrawal = withdrawals.traditional + withdrawals.roth + withdrawals.taxable;
+    const estimatedTax = grossWithdrawal > 0
+      ? calculateFederalIncomeTax(otherOrdinaryIncome + withdrawals.traditional, capitalGains, filingStatus, indexFactor).totalTax -
+        calculateFederalIncomeTax(otherOrdinaryIncome, 0, filingStatus, indexFactor).totalTax
+      : 0;
+
+    // Each bucket pays out no more than it holds; the unpaid rest is reported as a shortfall
+    const withdrawalShortfall = Math.max(target - grossWithdrawal, 0);
+
+    //
+    // ----- Ending balances -----
+    //
+    traditional = Math.max(traditional * growth + contributions.traditional - withdrawals.traditional, 0);
+    roth = Math.max(roth * growth + contributions.roth - withdrawals.roth, 0);
+    taxable = Math.max(taxable * growth + contributions.taxable - withdrawals.taxable, 0);
+    costBasis += contributions.taxable;
+
+    rows.push({
+      year,
+      age,
+      beginningBalance,
+      contribution: contributions.traditional + contributions.roth + contributions.taxable,
+      traditionalWithdrawal: withdrawals.traditional,
+      rothWithdrawal: withdrawals.roth,
+      taxableWithdrawal: withdrawals.taxable,
+      grossWithdrawal,
+      withdrawalShortfall,
+      requiredMinimumDistribution,
+      capitalGains,
+      estimatedTax,
+      afterTaxSpending: grossWithdrawal - estimatedTax,
+      traditionalBalance: traditional,
+      rothBalance: roth,
+      taxableBalance: taxable,
+      taxableCostBasis: costBasis,
+      endingBalance: traditional + roth + taxable,
+    });
+  }
+
+  return rows;
+}
+
+// --- Helpers ---
+interface BucketAmounts {
+  traditional: number;
+  roth: number;
+  taxable: number;
+}
+
+// conventional: taxable, then traditional, then Roth
+// proportional: pro rata to the bucket balances
+// fillBracket: traditional up to the bracket headroom, then taxable, then Roth, then the rest of traditional
+function allocateWithdrawal(
+  target: number,
+  balances: BucketAmounts,
+  order: WithdrawalOrder,
+  headroom: number
+): BucketAmounts {
+  const withdrawals: BucketAmounts = { traditional: 0, roth: 0, taxable: 0 };
+  const total = balances.traditional + balances.roth + balances.taxable;
+  if (target <= 0 || total <= 0) return withdrawals;
+
+  if (order === 'proportional') {
+    const share = Math.min(target / total, 1);
+    return {
+      traditional: balances.traditional * share,
+      roth: balances.roth * share,
+      taxable: balances.taxable * share,
+    };
+  }
+
+  let remaining = target;
+  const take = (bucket: keyof BucketAmounts, limit = Infinity) => {
+    const amount = Math.max(Math.min(remaining, balances[bucket] - withdrawals[bucket], limit), 0);
+    withdrawals[bucket] += amount;
+    remaining -= amount;
+  };
+
+  if (order === 'fillBracket') {
+    take('traditional', Math.max(headroom, 0));
+    take('taxable');
+    take('roth');
+    take('traditional');
+  } else {
+    take('taxable');
+    take('traditional');
+    take('roth');
+  }
+
+  return withdrawals;
+}
@@ -1,14 +1,36 @@
+import {
+  SOCIAL_SECURITY_PARAMETERS,
+  getAverageWageIndex,
+  getBendPoints,
+  getCostOfLivingAdjustment,
+  getTaxableMaximum,
+  validateSocialSecurityParameters,
+  type SocialSecurityParameterOptions,
+  type SocialSecurityParameters,
+} from './parameters';
+
 // --- Types ---
 export interface SocialSecurityBenefitInput {
   startYear: number;
   birthYear: number;
+  birthMonth?: number;                     // 1-12, default 1
+  birthDay?: number;                       // the 1st and 2nd of the month rules apply only when given
   claimingAge: number;
-  averageIncome: number;   
+  claimingAgeMonths?: number;              // 0-11 months on top of claimingAge, default 0
+  averageIncome?: number;                  // used when no earningsRecord is given
   averageCOLA: number;     
   lifeExpectancyAge: number;
+  earningsRecord?: EarningsRecordEntry[];  // actual covered earnings, replaces averageIncome
+  wageGrowthRate?: number;                 // annual percent for AWI past the published series, default from parameters
+  parameters?: SocialSecurityParameters;   // default SOCIAL_SECURITY_PARAMETERS
   yearOverrides?: SocialSecurityBenefitYearOverrides;
 }
 
+export interface EarningsRecordEntry {
+  year: number;
+  earnings: number;
+}
+
 export type SocialSecurityBenefitYearOverrides = Record<number, SocialSecurityBenefitOverride>;
 
 export interface SocialSecurityBenefitOverride {
@@ -21,9 +43,49 @@ export interface SocialSecurityBenefitProjectionRow {
   colaApplied: number;
   annualBenefit: number;
   monthlyBenefit: number;
+  monthsReceived: number;    // 12 after the claiming year, fewer in it
   hasOverride?: boolean;
 }
 
+export interface SocialSecurityClaimingDetails {
+  year: number;              // first month of entitlement
+  month: number;             // 1-12
+  ageMonths: number;         // age at entitlement in months, as the SSA counts it
+  fullRetirementAgeMonths: number;
+  monthsEarly: number;
+  monthsDelayed: number;     // credits stop at 70
+  adjustmentFactor: number;
+}
+
+export interface IndexedEarningsRow {
+  year: number;
+  age: number;
+  earnings: number;
+  taxableMaximum: number;
+  cappedEarnings: number;
+  indexFactor: number;       // AWI of the indexing year / AWI of this year, 1 from age 60 on
+  indexedEarnings: number;
+  isTopYear: boolean;        // one of the 35 highest years used in AIME
+}
+
+export interface PrimaryInsuranceAmountBreakdown {
+  eligibilityYear: number;   // year the worker turns 62
+  indexingYear: number;      // year the worker turns 60
+  indexedEarnings: IndexedEarningsRow[];
+  totalIndexedEarnings: number;
+  aime: number;              // Average Indexed Monthly Earnings
+  bendPoints: [number, number];
+  pia: number;               // monthly PIA at eligibility
+  piaAtClaiming: number;     // monthly PIA with COLAs from eligibility up to the claiming year
+  parametersVersion: string;
+}
+
+export interface SocialSecurityBenefitProjectionResult {
+  rows: SocialSecurityBenefitProjectionRow[];
+  breakdown: PrimaryInsuranceAmountBreakdown;
+  claiming: SocialSecurityClaimingDetails;
+}
+
 export interface SocialSecurityValidationError {
   field: keyof SocialSecurityBenefitInput;
   message: string;
@@ -33,12 +95,30 @@ export function validateSocialSecurityBenefitInput(
   input: SocialSecurityBenefitInput
 ): SocialSecurityValidationError[] {
   const errors: SocialSecurityValidationError[] = [];
-  const { startYear, birthYear, claimingAge, averageIncome, averageCOLA, lifeExpectancyAge } = input;
+  const {
+    startYear, birthYear, birthMonth = 1, birthDay, claimingAge, claimingAgeMonths = 0, averageIncome, averageCOLA,
+    lifeExpectancyAge, earningsRecord, parameters = SOCIAL_SECURITY_PARAMETERS, wageGrowthRate = parameters.projection.wageGrowthRate,
+  } = input;
 
   if (startYear < 1900) errors.push({ field: "startYear", message: "Start Year cannot be before 1900" });
   if (birthYear < 1900) errors.push({ field: "birthYear", message: "Birth Year cannot be before 1900" });
   if (claimingAge < 62) errors.push({ field: "claimingAge", message: "Must be at least 62 to claim Social Security benefits" });
-  if (averageIncome <= 0) errors.push({ field: "averageIncome", message: "Average income cannot be negative" });
+  if (!Number.isInteger(claimingAgeMonths) || claimingAgeMonths < 0 || claimingAgeMonths > 11)
+    errors.push({ field: "claimingAgeMonths", message: "Claiming Age Months must be a whole number from 0 to 11" });
+  if (!Number.isInteger(birthMonth) || birthMonth < 1 || birthMonth > 12)
+    errors.push({ field: "birthMonth", message: "Birth Month must be from 1 to 12" });
+  if (birthDay !== undefined && (!Number.isInteger(birthDay) || birthDay < 1 || birthDay > 31))
+    errors.push({ field: "birthDay", message: "Birth Day must be from 1 to 31" });
+  if (earningsRecord === undefined && (averageIncome === undefined || averageIncome <= 0))
+    errors.push({ field: "averageIncome", message: "Average income cannot be negative" });
+  if (earningsRecord !== undefined) {
+    const years = earningsRecord.map((entry) => entry.year);
+    if (years.some((year) => year < 1951)) errors.push({ field: "earningsRecord", message: "Earnings record cannot start before 1951" });
+    if (earningsRecord.some((entry) => entry.earnings < 0)) errors.push({ field: "earningsRecord", message: "Earnings cannot be negative" });
+    if (new Set(years).size !== years.length) errors.push({ field: "earningsRecord", message: "Earnings record has duplicate years" });
+  }
+  if (wageGrowthRate < -100) errors.push({ field: "wageGrowthRate", message: "Wage growth rate cannot be less than -100%" });
+  validateSocialSecurityParameters(parameters).forEach((message) => errors.push({ field: "parameters", message }));
   if (averageCOLA < 0) errors.push({ field: "averageCOLA", message: "Average COLA cannot be negative" });
   if (lifeExpectancyAge < 0 || lifeExpectancyAge > 150) errors.push({field: "lifeExpectancyAge", message: "Life Expectancy Age must be between 0 and 150"});
   if ((birthYear+lifeExpectancyAge) < startYear) errors.push({field: "lifeExpectancyAge", message: "Life Expectancy Age must be after Start Year"});
@@ -54,7 +134,17 @@ export function calculateSocialSecurityBenefitProjection(input: SocialSecurityBe
 export function calculateSocialSecurityBenefitProjectionWithOverrides(
   input: SocialSecurityBenefitInput
 ): SocialSecurityBenefitProjectionRow[] {
-  const { startYear, birthYear, claimingAge, averageIncome, averageCOLA, lifeExpectancyAge, yearOverrides = {} } = input;
+  return calculateSocialSecurityBenefitProjectionWithBreakdown(input).rows;
+}
+
+// Rows plus the AIME and PIA behind them
+export function calculateSocialSecurityBenefitProjectionWithBreakdown(
+  input: SocialSecurityBenefitInput
+): SocialSecurityBenefitProjectionResult {
+  const {
+    startYear, birthYear, birthMonth = 1, birthDay, averageIncome = 0, averageCOLA, lifeExpectancyAge, earningsRecord,
+    parameters = SOCIAL_SECURITY_PARAMETERS, wageGrowthRate = parameters.projection.wageGrowthRate, yearOverrides = {},
+  } = input;
 
   const errors = validateSocialSecurityBenefitInput(input);
     
@@ -65,16 +155,42 @@ export function calculateSocialSecurityBenefitProjectionWithOverrides(
   }
 
   const yearsToProject = birthYear + lifeExpectancyAge - startYear + 1;
-  const fullRetirementAge = getFullRetirementAge(birthYear);
-  const claimingYear = birthYear + claimingAge;
-
-  // Estimate monthly PIA (Primary Insurance Amount)
-  // TODO: Refine to use updated estimatePIAWithAIME (but need to pass in an array of incomes)
-  const estimatedPIA = estimatePIA(averageIncome);
+  const claiming = calculateClaimingDetails(input);
+  const claimingYear = claiming.year;
+  // Born on January 1st: eligibility and indexing years follow the previous birth year
+  const ssaBirthYear = birthMonth === 1 && birthDay === 1 ? birthYear - 1 : birthYear;
+
+  // COLA effective in December of a year: overrides first, then published COLAs before startYear,
+  // then averageCOLA
+  const colaFor = (year: number): number =>
+    yearOverrides[year]?.colaApplied ??
+    (year < startYear ? getCostOfLivingAdjustment(year, { parameters }) : undefined) ??
+    averageCOLA;
+
+  // Monthly PIA (Primary Insurance Amount): from the earnings record when given, otherwise estimated
+  // in today's dollars from average income. A record-based PIA is in eligibility-year dollars and
+  // receives each COLA from the eligibility year until claiming. An estimate for a worker already
+  // eligible uses eligibility-year parameters, so it receives the COLAs from then until claiming or
+  // startYear, whichever comes first; otherwise it is held in startYear dollars until claiming.
+  let breakdown: PrimaryInsuranceAmountBreakdown;
+  if (earningsRecord) {
+    const { pia, ...rest } = calculatePrimaryInsuranceAmount(earningsRecord, ssaBirthYear, wageGrowthRate, { parameters });
+    let piaAtClaiming = pia;
+    for (let year = rest.eligibilityYear; year < claimingYear; year++) piaAtClaiming *= 1 + colaFor(year) / 100;
+    breakdown = { ...rest, pia, piaAtClaiming };
+  } else {
+    const estimate = estimatePIA(averageIncome, ssaBirthYear, startYear, parameters);
+    let piaAtClaiming = estimate.pia;
+    for (let year = estimate.eligibilityYear; year < Math.min(claimingYear, startYear); year++) {
+      piaAtClaiming *= 1 + colaFor(year) / 100;
+    }
+    breakdown = { ...estimate, piaAtClaiming };
+  }
 
-  // Adjust for early/late claiming
-  const reductionOrIncreaseFactor = calculateAdjustmentFactor(claimingAge, fullRetirementAge);
-  let annualBenefitBase = estimatedPIA * 12 * reductionOrIncreaseFactor;
+  // Adjust for early/late claiming. Workers already collecting have also received each COLA from
+  // claiming until startYear.
+  let monthlyBenefitBase = breakdown.piaAtClaiming * claiming.adjustmentFactor;
+  for (let year = claimingYear; year < startYear; year++) monthlyBenefitBase *= 1 + colaFor(year) / 100;
 
   const rows: SocialSecurityBenefitProjectionRow[] = [];
 
@@ -86,13 +202,15 @@ export function calculateSocialSecurityBenefitProjectionWithOverrides(
     const hasOverride = override.colaApplied !== undefined;
 
     const isClaiming = year >= claimingYear;
-    const benefitForYear = isClaiming ? annualBenefitBase : 0;
+    // The claiming year only pays from the month of entitlement
+    const monthsReceived = year > claimingYear ? 12 : year === claimingYear ? 13 - claiming.month : 0;
+    const monthlyBenefit = isClaiming ? monthlyBenefitBase : 0;
 
     let colaAppliedThisIteration = 0;
     if (i > 0 && isClaiming) {
       // Use override for this year's COLA if present, otherwise use averageCOLA
       const colaToUse = override.colaApplied ?? averageCOLA;
-      annualBenefitBase = annualBenefitBase * (1 + colaToUse / 100);
+      monthlyBenefitBase = monthlyBenefitBase * (1 + colaToUse / 100);
       colaAppliedThisIteration = colaToUse;
     }
 
@@ -100,88 +218,165 @@ export function calculateSocialSecurityBenefitProjectionWithOverrides(
       year,
       age,
       colaApplied: colaAppliedThisIteration,
-      annualBenefit: Math.round(benefitForYear),
-      monthlyBenefit: Math.round(benefitForYear / 12),
+      annualBenefit: Math.round(monthlyBenefit * monthsReceived),
+      monthlyBenefit: Math.round(monthlyBenefit),
+      monthsReceived,
       hasOverride
     });
   }
 
-  return rows;
+  return { rows, breakdown, claiming };
 }
 
-// --- Helpers ---
-// SSA-style PIA calculation with 2025 bend points
-function estimatePIA(averageIncome: number): number {
-  const bendPoint1 = 1226;
-  const bendPoint2 = 7391;
-  const taxableMax = 176100; // 2025 SSA maximum taxable earnings
+// --- Claiming ---
+// Month of entitlement and the early-claiming reduction or delayed retirement credit. People born on
+// the 1st count as born in the previous month, and anyone not born on the 1st or 2nd is first
+// entitled at 62 in the month after their birthday month.
+export function calculateClaimingDetails(
+  input: Pick<SocialSecurityBenefitInput, 'birthYear' | 'birthMonth' | 'birthDay' | 'claimingAge' | 'claimingAgeMonths'>
+): SocialSecurityClaimingDetails {
+  const { birthYear, birthMonth = 1, birthDay, claimingAge, claimingAgeMonths = 0 } = input;
+
+  const birthIndex = birthYear * 12 + (birthMonth - 1) - (birthDay === 1 ? 1 : 0);
+  const earliestAgeMonths = 62 * 12 + (birthDay !== undefined && birthDay !== 2 ? 1 : 0);
+  const ageMonths = Math.max(claimingAge * 12 + claimingAgeMonths, earliestAgeMonths);
+  const entitlementIndex = birthIndex + ageMonths;
+
+  const fullRetirementAgeMonths = getFullRetirementAgeMonths(Math.floor(birthIndex / 12));
+  const monthsEarly = Math.max(fullRetirementAgeMonths - ageMonths, 0);
+  const monthsDelayed = Math.max(Math.min(ageMonths, 70 * 12) - fullRetirementAgeMonths, 0);
+
+  return {
+    year: Math.floor(entitlementIndex / 12),
+    month: (entitlementIndex % 12) + 1,
+    ageMonths,
+    fullRetirementAgeMonths,
+    monthsEarly,
+    monthsDelayed,
+    adjustmentFactor: calculateAdjustmentFactor(monthsEarly, monthsDelayed),
+  };
+}
 
-  // Cap at taxable maximum
-  const cappedIncome = Math.min(averageIncome, taxableMax);
-  const monthlyIncome = cappedIncome / 12;
+// Full retirement age in months for an SSA birth year (January 1st births use the previous year)
+export function getFullRetirementAgeMonths(birthYear: number): number {
+  return Math.round(getFullRetirementAge(birthYear) * 12);
+}
 
-  let pia = 0;
+// --- Primary Insurance Amount ---
+// Caps each year at its taxable maximum, wage-indexes years before age 60 to the AWI of the year
+// the worker turns 60, averages the top 35 years over 420 months and applies the bend points of
+// the year the worker turns 62. Later years count at their nominal amounts.
+export function calculatePrimaryInsuranceAmount(
+  earningsRecord: EarningsRecordEntry[],
+  birthYear: number,
+  wageGrowthRate?: number,
+  options: SocialSecurityParameterOptions = {}
+): Omit<PrimaryInsuranceAmountBreakdown, 'piaAtClaiming'> {
+  const { parameters = SOCIAL_SECURITY_PARAMETERS } = options;
+  const indexingYear = birthYear + 60;
+  const eligibilityYear = birthYear + 62;
+  const indexingAWI = getAverageWageIndex(indexingYear, wageGrowthRate, options);
+
+  const indexedEarnings: IndexedEarningsRow[] = [...earningsRecord]
+    .sort((a, b) => a.year - b.year)
+    .map(({ year, earnings }) => {
+      const taxableMaximum = getTaxableMaximum(year, wageGrowthRate, options);
+      const cappedEarnings = Math.min(earnings, taxableMaximum);
+      const indexFactor = year < indexingYear ? indexingAWI / getAverageWageIndex(year, wageGrowthRate, options) : 1;
+      return {
+        year,
+        age: year - birthYear,
+        earnings,
+        taxableMaximum,
+        cappedEarnings,
+        indexFactor,
+        indexedEarnings: cappedEarnings * indexFactor,
+        isTopYear: false,
+      };
+    });
 
-  if (monthlyIncome <= bendPoint1) {
-    pia = monthlyIncome * 0.9;
-  } else if (monthlyIncome <= bendPoint2) {
-    pia = bendPoint1 * 0.9 + (monthlyIncome - bendPoint1) * 0.32;
-  } else {
-    pia =
-      bendPoint1 * 0.9 +
-      (bendPoint2 - bendPoint1) * 0.32 +
-      (monthlyIncome - bendPoint2) * 0.15;
-  }
+  // Highest 35 years; fewer years leave zeros in the average
+  const topYears = [...indexedEarnings].sort((a, b) => b.indexedEarnings - a.indexedEarnings).slice(0, 35);
+  topYears.forEach((row) => (row.isTopYear = true));
+  const totalIndexedEarnings = topYears.reduce((sum, row) => sum + row.indexedEarnings, 0);
 
-  return pia;
-}
+  // AIME = total / 420 months, rounded down to the dollar
+  const aime = Math.floor(totalIndexedEarnings / 420);
+  const bendPoints = getBendPoints(eligibilityYear, wageGrowthRate, options);
 
-function estimatePIAWithAIME(
-  earnings: number[], // array of up to 35 years of indexed annual earnings
-  bendPoint1 = 1226,
-  bendPoint2 = 7391
-): number {
-  // Take highest 35 years
-  const topEarnings = earnings
-    .sort((a, b) => b - a)
-    .slice(0, 35);
+  // SSA truncates to nearest dime
+  const pia = Math.floor(applyBendPoints(aime, bendPoints, parameters.piaFactors) * 10) / 10;
+
+  return {
+    eligibilityYear,
+    indexingYear,
+    indexedEarnings,
+    totalIndexedEarnings,
+    aime,
+    bendPoints,
+    pia,
+    parametersVersion: parameters.version,
+  };
+}
 
-  const totalIndexedEarnings = topEarnings.reduce((sum, yr) => sum + yr, 0);
+// --- Helpers ---
+// SSA-style PIA calculation. Average income is in startYear dollars, so workers not yet eligible
+// use the startYear bend points and taxable maximum; those already eligible use their eligibility year's.
+function estimatePIA(
+  averageIncome: number,
+  birthYear: number,
+  startYear: number,
+  parameters: SocialSecurityParameters
+): PrimaryInsuranceAmountBreakdown {
+  const parameterYear = Math.min(birthYear + 62, startYear);
+  const bendPoints = getBendPoints(parameterYear, undefined, { parameters });
+  const taxableMax = getTaxableMaximum(parameterYear, undefined, { parameters });
 
-  // AIME = total / 420 months
-  const aime = Math.floor(totalIndexedEarnings / 420);
+  // Cap at taxable maximum
+  const cappedIncome = Math.min(averageIncome, taxableMax);
+  const monthlyIncome = cappedIncome / 12;
+  const pia = applyBendPoints(monthlyIncome, bendPoints, parameters.piaFactors);
+
+  return {
+    eligibilityYear: birthYear + 62,
+    indexingYear: birthYear + 60,
+    indexedEarnings: [],
+    totalIndexedEarnings: cappedIncome * 35,
+    aime: monthlyIncome,
+    bendPoints,
+    pia,
+    piaAtClaiming: pia,
+    parametersVersion: parameters.version,
+  };
+}
 
-  // Apply bend points
-  let pia = 0;
+// 90% of AIME up to the first bend point, 32% up to the second and 15% above it by default
+function applyBendPoints(
+  aime: number,
+  [bendPoint1, bendPoint2]: [number, number],
+  [factor1, factor2, factor3]: [number, number, number]
+): number {
   if (aime <= bendPoint1) {
-    pia = aime * 0.9;
+    return aime * factor1;
   } else if (aime <= bendPoint2) {
-    pia = bendPoint1 * 0.9 + (aime - bendPoint1) * 0.32;
+    return bendPoint1 * factor1 + (aime - bendPoint1) * factor2;
   } else {
-    pia =
-      bendPoint1 * 0.9 +
-      (bendPoint2 - bendPoint1) * 0.32 +
-      (aime - bendPoint2) * 0.15;
+    return (
+      bendPoint1 * factor1 +
+      (bendPoint2 - bendPoint1) * factor2 +
+      (aime - bendPoint2) * factor3
+    );
   }
-
-  // SSA truncates to nearest dime
-  pia = Math.floor(pia * 10) / 10;
-
-  return pia;
 }
 
-
 // Adjustment for early/late claiming relative to FRA
-function calculateAdjustmentFactor(claimingAge: number, fra: number): number {
-  if (claimingAge < fra) {
-    const monthsEarly = (fra - claimingAge) * 12;
-    return 1 - monthsEarly * 0.005; // ~0.5% per month early
-  } else if (claimingAge > fra) {
-    const monthsLate = (claimingAge - fra) * 12;
-    return 1 + monthsLate * 0.0067; // ~0.67% per month late
-  } else {
-    return 1;
+function calculateAdjustmentFactor(monthsEarly: number, monthsDelayed: number): number {
+  if (monthsEarly > 0) {
+    // 5/9 of 1% for each of the first 36 months, 5/12 of 1% for each month beyond
+    return 1 - Math.min(monthsEarly, 36) * (5 / 900) - Math.max(monthsEarly - 36, 0) * (5 / 1200);
   }
+  // 2/3 of 1% per month (8% a year) for those born 1943 or later
+  return 1 + monthsDelayed * (2 / 300);
 }
 
 // Full Retirement Age rules
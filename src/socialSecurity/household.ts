@@ -0,0 +1,358 @@
+import {
+  calculateSocialSecurityBenefitProjectionWithBreakdown,
+  getFullRetirementAgeMonths,
+  validateSocialSecurityBenefitInput,
+  type PrimaryInsuranceAmountBreakdown,
+  type SocialSecurityBenefitInput,
+  type SocialSecurityBenefitYearOverrides,
+  type SocialSecurityClaimingDetails,
+} from './benefit';
+import { SOCIAL_SECURITY_PARAMETERS, getCostOfLivingAdjustment, type SocialSecurityParameters } from './parameters';
+
+// --- Types ---
+export interface SocialSecurityHouseholdMember extends Pick<
+  SocialSecurityBenefitInput,
+  | 'birthYear'
+  | 'birthMonth'
+  | 'birthDay'
+  | 'claimingAge'
+  | 'claimingAgeMonths'
+  | 'averageIncome'
+  | 'earningsRecord'
+  | 'lifeExpectancyAge'
+> {
+  remarried?: boolean;             // divorced only: married to someone else, which ends spousal and survivor benefits
+  // Age the member files for survivor benefits, from 60 and independent of their own claiming age.
+  // Default: the earlier of claimingAge and the survivor full retirement age
+  survivorClaimingAge?: number;
+  survivorClaimingAgeMonths?: number;   // 0-11, default 0
+}
+
+export interface SocialSecurityHouseholdInput {
+  startYear: number;
+  averageCOLA: number;
+  primary: SocialSecurityHouseholdMember;
+  spouse: SocialSecurityHouseholdMember;
+  relationship?: 'married' | 'divorced';   // default married
+  marriageLengthYears?: number;    // divorced: at least 10 years for spousal and survivor benefits
+  divorceYear?: number;            // divorced: spousal benefits before the ex-spouse files need 2 years since
+  wageGrowthRate?: number;
+  parameters?: SocialSecurityParameters;
+  yearOverrides?: SocialSecurityBenefitYearOverrides;
+}
+
+export type SocialSecurityBenefitType = 'none' | 'retirement' | 'spousal' | 'survivor';
+
+export interface SocialSecurityHouseholdRow {
+  year: number;
+  age: number;
+  benefitType: SocialSecurityBenefitType;   // what is paid in the last month of the year
+  retirementBenefit: number;       // own benefit
+  spousalBenefit: number;          // excess over the own benefit
+  survivorBenefit: number;         // excess over the own benefit
+  annualBenefit: number;
+  monthlyBenefit: number;          // last month of the year
+  monthsReceived: number;
+}
+
+export interface SocialSecurityHouseholdMemberResult {
+  rows: SocialSecurityHouseholdRow[];
+  breakdown: PrimaryInsuranceAmountBreakdown;
+  claiming: SocialSecurityClaimingDetails;
+}
+
+export interface SocialSecurityHouseholdResult {
+  primary: SocialSecurityHouseholdMemberResult;
+  spouse: SocialSecurityHouseholdMemberResult;
+}
+
+export interface SocialSecurityHouseholdValidationError {
+  field: keyof SocialSecurityHouseholdInput | `${'primary' | 'spouse'}.${keyof SocialSecurityHouseholdMember}`;
+  message: string;
+}
+
+export function validateSocialSecurityHouseholdInput(
+  input: SocialSecurityHouseholdInput
+): SocialSecurityHouseholdValidationError[] {
+  const errors: SocialSecurityHouseholdValidationError[] = [];
+  const { marriageLengthYears = 0, divorceYear } = input;
+
+  // Member fields are reported per member; shared fields such as startYear only once
+  (['primary', 'spouse'] as const).forEach((member) => {
+    validateSocialSecurityBenefitInput(toBenefitInput(input, input[member])).forEach(({ field, message }) => {
+      if (isMemberField(field)) errors.push({ field: `${member}.${field}`, message });
+      else if (member === 'primary') errors.push({ field, message });
+    });
+
+    const { survivorClaimingAge, survivorClaimingAgeMonths = 0 } = input[member];
+    if (survivorClaimingAge !== undefined && survivorClaimingAge < 60)
+      errors.push({ field: `${member}.survivorClaimingAge`, message: "Must be at least 60 to claim survivor benefits" });
+    if (!Number.isInteger(survivorClaimingAgeMonths) || survivorClaimingAgeMonths < 0 || survivorClaimingAgeMonths > 11)
+      errors.push({ field: `${member}.survivorClaimingAgeMonths`, message: "Survivor Claiming Age Months must be a whole number from 0 to 11" });
+  });
+
+  if (marriageLengthYears < 0) errors.push({ field: "marriageLengthYears", message: "Marriage length cannot be negative" });
+  if (divorceYear !== undefined && divorceYear < 1900) errors.push({ field: "divorceYear", message: "Divorce Year cannot be before 1900" });
+
+  return errors;
+}
+
+// --- Main Projection ---
+// Each spouse receives their own retirement benefit plus any spousal excess while both are alive,
+// and the survivor receives the larger of their own and the survivor benefit after the first death.
+// Spousal benefits start no earlier than the member's own claiming month (deemed filing); survivor
+// benefits start at the member's survivor claiming age, independent of their own benefit.
+export function calculateSocialSecurityHouseholdProjection(input: SocialSecurityHouseholdInput): SocialSecurityHouseholdResult {
+  return createSocialSecurityHouseholdProjector(input)(input.primary, input.spouse);
+}
+
+// --- Repeated Projections ---
+// Projects the household for any pair of members, such as other claiming ages or lifetimes. Each
+// distinct member is validated and their PIA and claiming details computed only once.
+export function createSocialSecurityHouseholdProjector(
+  input: SocialSecurityHouseholdInput
+): (primary: SocialSecurityHouseholdMember, spouse: SocialSecurityHouseholdMember) => SocialSecurityHouseholdResult {
+  const states = new Map<string, MemberState>();
+
+  return (primary, spouse) => {
+    const household = { ...input, primary, spouse };
+    const primaryKey = JSON.stringify(primary);
+    const spouseKey = JSON.stringify(spouse);
+
+    let primaryState = states.get(primaryKey);
+    let spouseState = states.get(spouseKey);
+
+    if (!primaryState || !spouseState) {
+      const errors = validateSocialSecurityHouseholdInput(household);
+
+      if (errors.length > 0) {
+        const err = new Error("Social Security Household input validation failed");
+        (err as any).validationErrors = errors;
+        throw err;
+      }
+
+      primaryState = primaryState ?? createMemberState(household, primary);
+      spouseState = spouseState ?? createMemberState(household, spouse);
+      states.set(primaryKey, primaryState);
+      states.set(spouseKey, spouseState);
+    }
+
+    const colaIndex = createColaIndex(household, Math.min(primaryState.colaStartYear, spouseState.colaStartYear));
+
+    return {
+      primary: projectMember(household, primaryState, spouseState, colaIndex),
+      spouse: projectMember(household, spouseState, primaryState, colaIndex),
+    };
+  };
+}
+
+// --- Helpers ---
+const MEMBER_FIELDS = [
+  'birthYear',
+  'birthMonth',
+  'birthDay',
+  'claimingAge',
+  'claimingAgeMonths',
+  'averageIncome',
+  'earningsRecord',
+  'lifeExpectancyAge',
+] as const;
+
+type MemberField = (typeof MEMBER_FIELDS)[number];
+
+function isMemberField(field: keyof SocialSecurityBenefitInput): field is MemberField {
+  return (MEMBER_FIELDS as readonly string[]).includes(field);
+}
+
+interface MemberState {
+  member: SocialSecurityHouseholdMember;
+  breakdown: PrimaryInsuranceAmountBreakdown;
+  claiming: SocialSecurityClaimingDetails;
+  birthIndex: number;              // SSA birth month as year * 12 + month - 1
+  claimIndex: number;
+  survivorClaimIndex: number;
+  survivorFullRetirementAgeMonths: number;
+  deathYear: number;               // benefits are paid through December of this year
+  pia: number;                     // in colaStartYear dollars
+  colaStartYear: number;
+}
+
+function toBenefitInput(input: SocialSecurityHouseholdInput, member: SocialSecurityHouseholdMember): SocialSecurityBenefitInput {
+  const { remarried, survivorClaimingAge, survivorClaimingAgeMonths, ...rest } = member;
+  return {
+    ...rest,
+    startYear: input.startYear,
+    averageCOLA: input.averageCOLA,
+    ...(input.wageGrowthRate !== undefined && { wageGrowthRate: input.wageGrowthRate }),
+    ...(input.parameters !== undefined && { parameters: input.parameters }),
+    ...(input.yearOverrides !== undefined && { yearOverrides: input.yearOverrides }),
+  };
+}
+
+function createMemberState(input: SocialSecurityHouseholdInput, member: SocialSecurityHouseholdMember): MemberState {
+  const { breakdown, claiming } = calculateSocialSecurityBenefitProjectionWithBreakdown(toBenefitInput(input, member));
+  const claimIndex = claiming.year * 12 + claiming.month - 1;
+  const birthIndex = claimIndex - claiming.ageMonths;
+  const deathYear = member.birthYear + member.lifeExpectancyAge;
+
+  // Survivor full retirement age follows the retirement table of two birth years earlier
+  const survivorFullRetirementAgeMonths = getFullRetirementAgeMonths(Math.floor(birthIndex / 12) - 2);
+  const survivorClaimAgeMonths = member.survivorClaimingAge !== undefined
+    ? member.survivorClaimingAge * 12 + (member.survivorClaimingAgeMonths ?? 0)
+    : Math.min(claiming.ageMonths, survivorFullRetirementAgeMonths);
+
+  // A record-based PIA receives COLAs from eligibility; the average income estimate is held in
+  // startYear dollars until benefits begin, as in the single-worker projection. An estimate for a
+  // worker already eligible first receives the COLAs from eligibility to startYear.
+  const colaStartYear = member.earningsRecord
+    ? breakdown.eligibilityYear
+    : Math.max(input.startYear, Math.min(claiming.year, deathYear + 1));
+  const pia = member.earningsRecord
+    ? breakdown.pia
+    : breakdown.pia * createColaIndex(input, breakdown.eligibilityYear)(breakdown.eligibilityYear, input.startYear);
+
+  return {
+    member,
+    breakdown,
+    claiming,
+    birthIndex,
+    claimIndex,
+    survivorClaimIndex: birthIndex + survivorClaimAgeMonths,
+    survivorFullRetirementAgeMonths,
+    deathYear,
+    pia,
+    colaStartYear,
+  };
+}
+
+// Cumulative COLA factor by year: published COLAs before startYear, then averageCOLA, unless overridden
+function createColaIndex(input: SocialSecurityHouseholdInput, firstYear: number): (fromYear: number, toYear: number) => number {
+  const { startYear, averageCOLA, parameters = SOCIAL_SECURITY_PARAMETERS, yearOverrides = {} } = input;
+  const cumulative = new Map<number, number>([[firstYear, 1]]);
+
+  const at = (year: number): number => {
+    if (year <= firstYear) return 1;
+    const known = cumulative.get(year);
+    if (known !== undefined) return known;
+
+    const previous = year - 1;
+    const published = previous < startYear ? getCostOfLivingAdjustment(previous, { parameters }) : undefined;
+    const cola = yearOverrides[previous]?.colaApplied ?? published ?? averageCOLA;
+    const value = at(previous) * (1 + cola / 100);
+    cumulative.set(year, value);
+    return value;
+  };
+
+  return (fromYear, toYear) => (toYear <= fromYear ? 1 : at(toYear) / at(fromYear));
+}
+
+function projectMember(
+  input: SocialSecurityHouseholdInput,
+  self: MemberState,
+  partner: MemberState,
+  colaIndex: (fromYear: number, toYear: number) => number
+): SocialSecurityHouseholdMemberResult {
+  const { startYear, relationship = 'married', marriageLengthYears = 0, divorceYear } = input;
+  const divorced = relationship === 'divorced';
+  const qualifies = !divorced || (marriageLengthYears >= 10 && !self.member.remarried);
+
+  const pia = (state: MemberState, year: number) => state.pia * colaIndex(state.colaStartYear, year);
+
+  // Spousal entitlement: married spouses need the worker to have filed; divorced spouses can also
+  // claim once the ex-spouse is 62 and the divorce is 2 years old
+  const partnerFiled = partner.claimIndex;
+  const independentStart = divorced && divorceYear !== undefined
+    ? Math.max(partner.birthIndex + 62 * 12 + 1, (divorceYear + 2) * 12)
+    : Infinity;
+  const spousalStart = Math.max(self.claimIndex, Math.min(partnerFiled, independentStart));
+  const spousalFactor = calculateSpousalFactor(self.claiming.fullRetirementAgeMonths - (spousalStart - self.birthIndex));
+
+  // Survivor entitlement starts the January after the partner's death year, once the member has filed
+  // for it; before their own benefit starts, the whole survivor benefit is paid as the excess
+  const survivorStart = Math.max(self.survivorClaimIndex, (partner.deathYear + 1) * 12);
+  const survivorFactor = calculateSurvivorFactor(
+    self.survivorFullRetirementAgeMonths - (survivorStart - self.birthIndex),
+    self.survivorFullRetirementAgeMonths
+  );
+  const deceasedFactor = calculateDeceasedBenefitFactor(partner);
+
+  const rows: SocialSecurityHouseholdRow[] = [];
+
+  for (let year = startYear; year <= self.deathYear; year++) {
+    let retirementBenefit = 0;
+    let spousalBenefit = 0;
+    let survivorBenefit = 0;
+    let monthsReceived = 0;
+    let lastMonth = { total: 0, benefitType: 'none' as SocialSecurityBenefitType };
+
+    const ownPIA = pia(self, year);
+    const partnerPIA = pia(partner, year);
+    const partnerAlive = year <= partner.deathYear;
+
+    for (let month = 0; month < 12; month++) {
+      const index = year * 12 + month;
+      const own = index >= self.claimIndex ? ownPIA * self.claiming.adjustmentFactor : 0;
+
+      let spousal = 0;
+      let survivor = 0;
+      if (qualifies && partnerAlive && index >= spousalStart) {
+        spousal = Math.max(partnerPIA / 2 - ownPIA, 0) * spousalFactor;
+      }
+      if (qualifies && !partnerAlive && index >= survivorStart) {
+        // Widow(er) limit: after an early-claiming worker dies, the survivor gets no more than the larger
+        // of the worker's reduced benefit and 82.5% of the PIA
+        const reduced = partnerPIA * Math.max(deceasedFactor, 1) * survivorFactor;
+        const limit = deceasedFactor < 1 ? Math.max(partnerPIA * deceasedFactor, partnerPIA * 0.825) : Infinity;
+        survivor = Math.max(Math.min(reduced, limit) - own, 0);
+      }
+
+      retirementBenefit += own;
+      spousalBenefit += spousal;
+      survivorBenefit += survivor;
+
+      const total = own + spousal + survivor;
+      if (total > 0) monthsReceived++;
+      lastMonth = {
+        total,
+        benefitType: survivor > 0 ? 'survivor' : spousal > 0 ? 'spousal' : own > 0 ? 'retirement' : 'none',
+      };
+    }
+
+    rows.push({
+      year,
+      age: year - self.member.birthYear,
+      benefitType: lastMonth.benefitType,
+      retirementBenefit: Math.round(retirementBenefit),
+      spousalBenefit: Math.round(spousalBenefit),
+      survivorBenefit: Math.round(survivorBenefit),
+      annualBenefit: Math.round(retirementBenefit + spousalBenefit + survivorBenefit),
+      monthlyBenefit: Math.round(lastMonth.total),
+      monthsReceived,
+    });
+  }
+
+  return { rows, breakdown: self.breakdown, claiming: self.claiming };
+}
+
+// Spousal benefits drop 25/36 of 1% for each of the first 36 months before FRA and 5/12 of 1% beyond,
+// and earn no delayed credits
+function calculateSpousalFactor(monthsEarly: number): number {
+  const months = Math.max(monthsEarly, 0);
+  return 1 - Math.min(months, 36) * (25 / 3600) - Math.max(months - 36, 0) * (5 / 1200);
+}
+
+// Survivor benefits drop linearly to 71.5% at age 60
+function calculateSurvivorFactor(monthsEarly: number, survivorFullRetirementAgeMonths: number): number {
+  const months = Math.max(monthsEarly, 0);
+  return 1 - 0.285 * Math.min(months / (survivorFullRetirementAgeMonths - 60 * 12), 1);
+}
+
+// The deceased's benefit the survivor inherits: the actual factor if they had filed, otherwise
+// delayed credits earned up to death (never a reduction)
+function calculateDeceasedBenefitFactor(deceased: MemberState): number {
+  const deathIndex = deceased.deathYear * 12 + 11;
+  if (deceased.claimIndex <= deathIndex) return deceased.claiming.adjustmentFactor;
+
+  const ageAtDeath = Math.min(deathIndex + 1 - deceased.birthIndex, 70 * 12);
+  return 1 + Math.max(ageAtDeath - deceased.claiming.fullRetirementAgeMonths, 0) * (2 / 300);
+}
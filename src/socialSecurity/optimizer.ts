@@ -0,0 +1,459 @@
+import {
+  calculateClaimingDetails,
+  calculateSocialSecurityBenefitProjectionWithOverrides,
+  type SocialSecurityBenefitInput,
+  type SocialSecurityBenefitYearOverrides,
+} from './benefit';
+import {
+  createSocialSecurityHouseholdProjector,
+  type SocialSecurityHouseholdInput,
+  type SocialSecurityHouseholdMember,
+} from './household';
+
+// --- Types ---
+export type MortalityAssumption =
+  | { type: 'gompertz'; modalAge: number; dispersion: number }
+  // Probability of dying within the year at each age, for every age from the current age on with no
+  // gaps; ages past the table are treated as certain death
+  | { type: 'table'; deathProbabilities: Record<number, number> };
+
+export type ClaimingRankMetric = 'lifetimeBenefits' | 'presentValue' | 'expectedValue';
+
+export interface ClaimingOptimizerOptions {
+  discountRate?: number;                   // real annual percent, default 2; averageCOLA is treated as inflation
+  mortality?: MortalityAssumption;         // default Gompertz with modal age 88 and dispersion 10
+  spouseMortality?: MortalityAssumption;   // couples, defaults to mortality
+  rankBy?: ClaimingRankMetric;             // default expectedValue
+  // Months between candidate claiming ages. Default 1; couples default to yearly ages, then every
+  // month within a year of the best pair
+  monthStep?: number;
+}
+
+export interface ClaimingAge {
+  years: number;
+  months: number;
+}
+
+export interface ClaimingStrategyResult {
+  claimingAge: ClaimingAge;
+  spouseClaimingAge?: ClaimingAge;         // couples
+  lifetimeBenefits: number;                // nominal, through lifeExpectancyAge
+  presentValue: number;                    // through lifeExpectancyAge, discounted to startYear
+  expectedValue: number;                   // discounted and weighted by the probability of being alive, to age 119
+  breakEvenAge: number | null;             // age at which cumulative benefits overtake the earliest strategy
+  rank: number;                            // 1 is best under rankBy
+}
+
+export interface ClaimingOptimizerResult {
+  rankBy: ClaimingRankMetric;
+  best: ClaimingStrategyResult;
+  strategies: ClaimingStrategyResult[];    // best first
+  // Age at which the second strategy's cumulative benefits catch up with the first's, or null; for
+  // couples in the primary's age. Both must come from this result.
+  breakEven: (a: ClaimingStrategyResult, b: ClaimingStrategyResult) => number | null;
+}
+
+export interface ClaimingOptimizerValidationError {
+  field: keyof ClaimingOptimizerOptions | 'birthYear';
+  message: string;
+}
+
+export interface BenefitCashFlow {
+  year: number;
+  annualBenefit: number;
+}
+
+const MAX_AGE = 119;
+const DEFAULT_MORTALITY: MortalityAssumption = { type: 'gompertz', modalAge: 88, dispersion: 10 };
+
+export function validateClaimingOptimizerOptions(options: ClaimingOptimizerOptions): ClaimingOptimizerValidationError[] {
+  const errors: ClaimingOptimizerValidationError[] = [];
+  const { discountRate = 2, mortality, spouseMortality, monthStep = 1 } = options;
+
+  if (discountRate <= -100) errors.push({ field: "discountRate", message: "Discount rate must be greater than -100%" });
+  if (!Number.isInteger(monthStep) || monthStep < 1 || monthStep > 96)
+    errors.push({ field: "monthStep", message: "Month step must be a whole number from 1 to 96" });
+  if (mortality && !isValidMortality(mortality)) errors.push({ field: "mortality", message: "Mortality assumption is invalid" });
+  if (spouseMortality && !isValidMortality(spouseMortality))
+    errors.push({ field: "spouseMortality", message: "Mortality assumption is invalid" });
+
+  return errors;
+}
+
+// --- Single Worker ---
+// Every claiming age from 62 to 70 in monthStep months that is still ahead at startYear
+export function optimizeSocialSecurityClaiming(
+  input: SocialSecurityBenefitInput,
+  options: ClaimingOptimizerOptions = {}
+): ClaimingOptimizerResult {
+  const { discountRate = 2, mortality = DEFAULT_MORTALITY, rankBy = 'expectedValue' } = options;
+  const candidates = getCandidateAges(input, input.startYear, options);
+  throwIfInvalid(options, candidates, [{ field: 'mortality', mortality, startAge: input.startYear - input.birthYear }]);
+
+  const discount = createDiscount(input.startYear, discountRate);
+  const alive = createSurvival(mortality, input.birthYear, input.startYear);
+  const lastYear = input.birthYear + input.lifeExpectancyAge;
+  const realInput = toStartYearDollars(input);
+
+  const evaluated = candidates.map((claimingAge) => {
+    // Project to the maximum age once; lifetime and present value stop at lifeExpectancyAge
+    const project = (source: SocialSecurityBenefitInput) =>
+      calculateSocialSecurityBenefitProjectionWithOverrides({
+        ...source,
+        claimingAge: claimingAge.years,
+        claimingAgeMonths: claimingAge.months,
+        lifeExpectancyAge: Math.max(MAX_AGE, input.lifeExpectancyAge),
+      });
+    const rows = project(input);
+    const realRows = project(realInput);
+
+    return {
+      claimingAge,
+      rows,
+      lifetimeBenefits: sumThrough(rows, lastYear, () => 1),
+      presentValue: sumThrough(realRows, lastYear, discount),
+      expectedValue: sumThrough(realRows, Infinity, (year) => discount(year) * alive(year)),
+    };
+  });
+
+  return rankStrategies(evaluated, rankBy, input.birthYear);
+}
+
+// --- Couples ---
+// Every pair of claiming ages in monthStep months, or without a monthStep every pair of yearly ages
+// and then every pair of months within a year of the best of them. Expected value treats the two
+// lifetimes as independent and pays the survivor what the household projection pays after a death in
+// each possible year.
+export function optimizeSocialSecurityHouseholdClaiming(
+  input: SocialSecurityHouseholdInput,
+  options: ClaimingOptimizerOptions = {}
+): ClaimingOptimizerResult {
+  const { discountRate = 2, mortality = DEFAULT_MORTALITY, spouseMortality = mortality, rankBy = 'expectedValue' } = options;
+  const { startYear, primary, spouse } = input;
+  const searchOptions = { ...options, monthStep: options.monthStep ?? 12 };
+  const primaryCandidates = getCandidateAges(primary, startYear, searchOptions);
+  const spouseCandidates = getCandidateAges(spouse, startYear, searchOptions);
+  throwIfInvalid(options, primaryCandidates.length > 0 ? spouseCandidates : [], [
+    { field: 'mortality', mortality, startAge: startYear - primary.birthYear },
+    { field: 'spouseMortality', mortality: spouseMortality, startAge: startYear - spouse.birthYear },
+  ]);
+
+  const discount = createDiscount(startYear, discountRate);
+  const projectNominal = createSocialSecurityHouseholdProjector(input);
+  const projectReal = createSocialSecurityHouseholdProjector(toStartYearDollars(input));
+  const primaryAlive = createSurvival(mortality, primary.birthYear, startYear);
+  const spouseAlive = createSurvival(spouseMortality, spouse.birthYear, startYear);
+  const lastYear = Math.max(primary.birthYear + primary.lifeExpectancyAge, spouse.birthYear + spouse.lifeExpectancyAge);
+  const endYear = Math.max(primary.birthYear, spouse.birthYear) + MAX_AGE;
+  // Discounted, survival-weighted survivor benefits from each year on, shared between pairs: the
+  // survivor's rows after a death depend on the deceased's claiming age only if the deceased had filed
+  const survivorTails = new Map<string, Map<number, number>>();
+
+  const evaluatePair = (claimingAge: ClaimingAge, spouseClaimingAge: ClaimingAge): EvaluatedStrategy => {
+    const ages = { primary: claimingAge, spouse: spouseClaimingAge };
+    const members = (primaryLife: number, spouseLife: number) =>
+      [withClaimingAge(primary, claimingAge, primaryLife), withClaimingAge(spouse, spouseClaimingAge, spouseLife)] as const;
+    const project = (primaryLife: number, spouseLife: number) => projectReal(...members(primaryLife, spouseLife));
+    const nominal = (primaryLife: number, spouseLife: number) => {
+      const projection = projectNominal(...members(primaryLife, spouseLife));
+      return combineRows(projection.primary.rows, projection.spouse.rows);
+    };
+
+    // Deterministic lifetimes for lifetime benefits and present value
+    const plannedRows = nominal(primary.lifeExpectancyAge, spouse.lifeExpectancyAge);
+    const planned = project(primary.lifeExpectancyAge, spouse.lifeExpectancyAge);
+    const realRows = combineRows(planned.primary.rows, planned.spouse.rows);
+
+    // Both alive to the maximum age, for break-even and the joint-survival part of expected value
+    const bothRows = nominal(MAX_AGE, MAX_AGE);
+    const both = project(MAX_AGE, MAX_AGE);
+    let expectedValue = sumThrough(
+      combineRows(both.primary.rows, both.spouse.rows),
+      Infinity,
+      (year) => discount(year) * primaryAlive(year) * spouseAlive(year)
+    );
+
+    // Survivor benefits stop depending on the year of death once the deceased has filed and the
+    // survivor has reached 67, so later deaths reuse that year's projection
+    const survivorValue = (survivor: 'primary' | 'spouse') => {
+      const deceased = survivor === 'primary' ? 'spouse' : 'primary';
+      const survivorAlive = survivor === 'primary' ? primaryAlive : spouseAlive;
+      const deceasedAlive = survivor === 'primary' ? spouseAlive : primaryAlive;
+      const stableYear = Math.max(both[deceased].claiming.year, input[survivor].birthYear + 67);
+      let value = 0;
+
+      for (let deathYear = startYear; deathYear < endYear; deathYear++) {
+        const deathProbability = deceasedAlive(deathYear) - deceasedAlive(deathYear + 1);
+        if (deathProbability <= 0) continue;
+
+        const projectionYear = Math.min(deathYear, stableYear);
+        const filed = both[deceased].claiming.year <= projectionYear;
+        const key = [survivor, formatAge(ages[survivor]), projectionYear, filed ? formatAge(ages[deceased]) : 'unfiled'].join(' ');
+        let tails = survivorTails.get(key);
+        if (!tails) {
+          const deceasedLife = projectionYear - input[deceased].birthYear;
+          const projection = survivor === 'primary' ? project(MAX_AGE, deceasedLife) : project(deceasedLife, MAX_AGE);
+          tails = sumTails(projection[survivor].rows, (year) => discount(year) * survivorAlive(year));
+          survivorTails.set(key, tails);
+        }
+
+        value += (tails.get(deathYear + 1) ?? 0) * deathProbability;
+      }
+      return value;
+    };
+    expectedValue += survivorValue('primary') + survivorValue('spouse');
+
+    return {
+      claimingAge,
+      spouseClaimingAge,
+      rows: bothRows,
+      lifetimeBenefits: sumThrough(plannedRows, lastYear, () => 1),
+      presentValue: sumThrough(realRows, lastYear, discount),
+      expectedValue,
+    };
+  };
+
+  const evaluated = primaryCandidates.flatMap((claimingAge) =>
+    spouseCandidates.map((spouseClaimingAge) => evaluatePair(claimingAge, spouseClaimingAge))
+  );
+
+  const coarseBest = evaluated.reduce<EvaluatedStrategy | undefined>(
+    (best, strategy) => (!best || strategy[rankBy] > best[rankBy] ? strategy : best),
+    undefined
+  );
+  if (options.monthStep === undefined && coarseBest?.spouseClaimingAge) {
+    const near = (member: SocialSecurityHouseholdMember, target: ClaimingAge) =>
+      getCandidateAges(member, startYear, { monthStep: 1 }).filter(
+        (age) => Math.abs(toMonths(age) - toMonths(target)) < 12
+      );
+    const seen = new Set(evaluated.map((strategy) => formatPair(strategy)));
+    const spouseNear = near(spouse, coarseBest.spouseClaimingAge);
+
+    near(primary, coarseBest.claimingAge).forEach((claimingAge) =>
+      spouseNear.forEach((spouseClaimingAge) => {
+        if (!seen.has(formatPair({ claimingAge, spouseClaimingAge }))) evaluated.push(evaluatePair(claimingAge, spouseClaimingAge));
+      })
+    );
+  }
+
+  return rankStrategies(evaluated, rankBy, primary.birthYear);
+}
+
+// --- Break-Even ---
+// Age (calendar-year age plus the fraction of the year) at which the later strategy's cumulative
+// benefits catch up with the earlier one's, or null if they never do
+export function calculateBreakEvenAge(
+  earlier: BenefitCashFlow[],
+  later: BenefitCashFlow[],
+  birthYear: number
+): number | null {
+  const laterByYear = new Map(later.map((row) => [row.year, row.annualBenefit]));
+  let difference = 0;   // later minus earlier, cumulative
+  let behind = false;
+
+  for (const row of [...earlier].sort((a, b) => a.year - b.year)) {
+    const gain = (laterByYear.get(row.year) ?? 0) - row.annualBenefit;
+    const next = difference + gain;
+
+    if (next < 0) behind = true;
+    if (behind && difference < 0 && next >= 0) return row.year - birthYear + -difference / gain;
+
+    difference = next;
+  }
+
+  return null;
+}
+
+// --- Helpers ---
+interface EvaluatedStrategy {
+  claimingAge: ClaimingAge;
+  spouseClaimingAge?: ClaimingAge;
+  rows: BenefitCashFlow[];
+  lifetimeBenefits: number;
+  presentValue: number;
+  expectedValue: number;
+}
+
+function getCandidateAges(
+  member: Pick<SocialSecurityBenefitInput, 'birthYear' | 'birthMonth' | 'birthDay'>,
+  startYear: number,
+  options: ClaimingOptimizerOptions
+): ClaimingAge[] {
+  const { monthStep = 1 } = options;
+  if (!Number.isInteger(monthStep) || monthStep < 1) return [];
+
+  const ages: ClaimingAge[] = [];
+  for (let months = 62 * 12; months <= 70 * 12; months += monthStep) {
+    ages.push({ years: Math.floor(months / 12), months: months % 12 });
+  }
+  if (ages[ages.length - 1]?.years !== 70) ages.push({ years: 70, months: 0 });
+
+  // Drop ages already passed; a late birth month can round two candidates to the same first month
+  const seen = new Set<number>();
+  return ages.filter((age) => {
+    const claiming = calculateClaimingDetails({ ...member, claimingAge: age.years, claimingAgeMonths: age.months });
+    const index = claiming.year * 12 + claiming.month - 1;
+    if (index < startYear * 12 || seen.has(index)) return false;
+    seen.add(index);
+    return true;
+  });
+}
+
+// Mortality tables must also start by each person's age in startYear
+function throwIfInvalid(
+  options: ClaimingOptimizerOptions,
+  candidates: ClaimingAge[],
+  coverage: { field: 'mortality' | 'spouseMortality'; mortality: MortalityAssumption; startAge: number }[]
+): void {
+  const errors = validateClaimingOptimizerOptions(options);
+  if (errors.length === 0 && candidates.length === 0)
+    errors.push({ field: "birthYear", message: "No claiming age from 62 to 70 remains after the start year" });
+  coverage.forEach(({ field, mortality, startAge }) => {
+    if (mortality.type === 'table' && isValidMortality(mortality) &&
+        Math.min(...Object.keys(mortality.deathProbabilities).map(Number)) > startAge) {
+      errors.push({ field, message: `Mortality table must start at or before age ${startAge}` });
+    }
+  });
+
+  if (errors.length > 0) {
+    const err = new Error("Social Security claiming optimizer input validation failed");
+    (err as any).validationErrors = errors;
+    throw err;
+  }
+}
+
+function withClaimingAge(
+  member: SocialSecurityHouseholdMember,
+  claimingAge: ClaimingAge,
+  lifeExpectancyAge: number
+): SocialSecurityHouseholdMember {
+  return { ...member, claimingAge: claimingAge.years, claimingAgeMonths: claimingAge.months, lifeExpectancyAge };
+}
+
+function formatAge(age: ClaimingAge): string {
+  return `${age.years}y${age.months}m`;
+}
+
+function formatPair({ claimingAge, spouseClaimingAge }: Pick<EvaluatedStrategy, 'claimingAge' | 'spouseClaimingAge'>): string {
+  return `${formatAge(claimingAge)} ${spouseClaimingAge ? formatAge(spouseClaimingAge) : ''}`;
+}
+
+function toMonths(age: ClaimingAge): number {
+  return age.years * 12 + age.months;
+}
+
+function combineRows(primary: BenefitCashFlow[], spouse: BenefitCashFlow[]): BenefitCashFlow[] {
+  const totals = new Map<number, number>();
+  [...primary, ...spouse].forEach((row) => totals.set(row.year, (totals.get(row.year) ?? 0) + row.annualBenefit));
+  return [...totals.entries()].sort(([a], [b]) => a - b).map(([year, annualBenefit]) => ({ year, annualBenefit }));
+}
+
+function sumThrough(rows: BenefitCashFlow[], lastYear: number, weight: (year: number) => number): number {
+  return rows.reduce((sum, row) => (row.year > lastYear ? sum : sum + row.annualBenefit * weight(row.year)), 0);
+}
+
+// Weighted sum of the rows from each year on, by year
+function sumTails(rows: BenefitCashFlow[], weight: (year: number) => number): Map<number, number> {
+  const tails = new Map<number, number>();
+  let total = 0;
+  [...rows].sort((a, b) => b.year - a.year).forEach((row) => {
+    total += row.annualBenefit * weight(row.year);
+    tails.set(row.year, total);
+  });
+  return tails;
+}
+
+// Applied to benefits in startYear dollars
+function createDiscount(startYear: number, discountRate: number): (year: number) => number {
+  return (year) => Math.pow(1 + discountRate / 100, -(year - startYear));
+}
+
+// The same input with benefits in startYear dollars. averageCOLA is treated as inflation, so it drops
+// to 0 and COLA overrides from startYear on keep only their excess over it. An estimated PIA is
+// already in startYear dollars or reaches them through the published COLAs, as a record-based one
+// does, so both paths come out in the same real terms whenever they claim.
+function toStartYearDollars<T extends Pick<SocialSecurityBenefitInput, 'startYear' | 'averageCOLA' | 'yearOverrides'>>(
+  input: T
+): T {
+  const { startYear, averageCOLA, yearOverrides } = input;
+  if (yearOverrides === undefined) return { ...input, averageCOLA: 0 };
+
+  const realOverrides: SocialSecurityBenefitYearOverrides = {};
+  Object.entries(yearOverrides).forEach(([key, override]) => {
+    const year = Number(key);
+    realOverrides[year] = override.colaApplied !== undefined && year >= startYear
+      ? { ...override, colaApplied: ((1 + override.colaApplied / 100) / (1 + averageCOLA / 100) - 1) * 100 }
+      : override;
+  });
+  return { ...input, averageCOLA: 0, yearOverrides: realOverrides };
+}
+
+// Probability of being alive in a year, given alive at startYear
+function createSurvival(mortality: MortalityAssumption, birthYear: number, startYear: number): (year: number) => number {
+  const startAge = startYear - birthYear;
+
+  if (mortality.type === 'gompertz') {
+    const { modalAge, dispersion } = mortality;
+    return (year) => {
+      const age = year - birthYear;
+      if (age <= startAge) return 1;
+      return Math.exp(Math.exp((startAge - modalAge) / dispersion) - Math.exp((age - modalAge) / dispersion));
+    };
+  }
+
+  const ages = Object.keys(mortality.deathProbabilities).map(Number);
+  const lastAge = Math.max(...ages);
+  const cumulative = new Map<number, number>();
+
+  return (year) => {
+    const age = year - birthYear;
+    if (age <= startAge) return 1;
+    const known = cumulative.get(age);
+    if (known !== undefined) return known;
+
+    let survival = 1;
+    for (let x = startAge; x < age; x++) {
+      survival *= 1 - (x > lastAge ? 1 : mortality.deathProbabilities[x] ?? 1);
+    }
+    cumulative.set(age, survival);
+    return survival;
+  };
+}
+
+function isValidMortality(mortality: MortalityAssumption): boolean {
+  if (mortality.type === 'gompertz') return mortality.dispersion > 0;
+  const ages = Object.keys(mortality.deathProbabilities).map(Number);
+  const probabilities = Object.values(mortality.deathProbabilities);
+  // Whole ages with no gaps, so a missing age cannot pass as a year without deaths
+  const isContiguous = ages.every(Number.isInteger) && Math.max(...ages) - Math.min(...ages) + 1 === ages.length;
+  return probabilities.length > 0 && isContiguous && probabilities.every((q) => q >= 0 && q <= 1);
+}
+
+function rankStrategies(
+  evaluated: EvaluatedStrategy[],
+  rankBy: ClaimingRankMetric,
+  birthYear: number
+): ClaimingOptimizerResult {
+  const earliest = evaluated[0];
+  const rowsByStrategy = new Map<ClaimingStrategyResult, BenefitCashFlow[]>();
+
+  const strategies = evaluated
+    .map(({ rows, ...strategy }, i) => {
+      const result = {
+        ...strategy,
+        breakEvenAge: earliest && i > 0 ? calculateBreakEvenAge(earliest.rows, rows, birthYear) : null,
+        rank: 0,
+      };
+      rowsByStrategy.set(result, rows);
+      return result;
+    })
+    .sort((a, b) => b[rankBy] - a[rankBy]);
+  strategies.forEach((strategy, i) => (strategy.rank = i + 1));
+
+  const best = strategies[0];
+  if (!best) throw new Error("Social Security claiming optimizer found no strategies");
+
+  const breakEven = (a: ClaimingStrategyResult, b: ClaimingStrategyResult) =>
+    calculateBreakEvenAge(rowsByStrategy.get(a) ?? [], rowsByStrategy.get(b) ?? [], birthYear);
+  return { rankBy, best, strategies, breakEven };
+}
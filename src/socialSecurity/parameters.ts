@@ -0,0 +1,234 @@
+// --- Types ---
+export interface SocialSecurityParameterYear {
+  year: number;
+  averageWageIndex?: number;            // National Average Wage Index, published the following fall
+  taxableMaximum: number;               // contribution and benefit base
+  bendPoints?: [number, number];        // PIA bend points for workers first eligible this year (1979 on)
+  cola?: number;                        // percent, effective for December of this year
+  earningsTestExempt?: [number, number];  // annual exempt amounts: under FRA, year FRA is reached
+}
+
+export interface SocialSecurityParameters {
+  version: string;
+  piaFactors: [number, number, number];   // applied below, between and above the bend points
+  projection: {
+    wageGrowthRate: number;             // annual percent growth of the AWI past the last published year
+  };
+  years: SocialSecurityParameterYear[];
+}
+
+export interface SocialSecurityParameterOptions {
+  parameters?: SocialSecurityParameters;   // defaults to SOCIAL_SECURITY_PARAMETERS
+}
+
+// --- Data ---
+// SSA published values through the October 2025 COLA announcement
+export const SOCIAL_SECURITY_PARAMETERS: SocialSecurityParameters = {
+  version: '2025-10',
+  piaFactors: [0.9, 0.32, 0.15],
+  projection: { wageGrowthRate: 3.5 },
+  years: [
+    { year: 1951, averageWageIndex: 2799.16, taxableMaximum: 3600 },
+    { year: 1952, averageWageIndex: 2973.32, taxableMaximum: 3600 },
+    { year: 1953, averageWageIndex: 3139.44, taxableMaximum: 3600 },
+    { year: 1954, averageWageIndex: 3155.64, taxableMaximum: 3600 },
+    { year: 1955, averageWageIndex: 3301.44, taxableMaximum: 4200 },
+    { year: 1956, averageWageIndex: 3532.36, taxableMaximum: 4200 },
+    { year: 1957, averageWageIndex: 3641.72, taxableMaximum: 4200 },
+    { year: 1958, averageWageIndex: 3673.80, taxableMaximum: 4200 },
+    { year: 1959, averageWageIndex: 3855.80, taxableMaximum: 4800 },
+    { year: 1960, averageWageIndex: 4007.12, taxableMaximum: 4800 },
+    { year: 1961, averageWageIndex: 4086.76, taxableMaximum: 4800 },
+    { year: 1962, averageWageIndex: 4291.40, taxableMaximum: 4800 },
+    { year: 1963, averageWageIndex: 4396.64, taxableMaximum: 4800 },
+    { year: 1964, averageWageIndex: 4576.32, taxableMaximum: 4800 },
+    { year: 1965, averageWageIndex: 4658.72, taxableMaximum: 4800 },
+    { year: 1966, averageWageIndex: 4938.36, taxableMaximum: 6600 },
+    { year: 1967, averageWageIndex: 5213.44, taxableMaximum: 6600 },
+    { year: 1968, averageWageIndex: 5571.76, taxableMaximum: 7800 },
+    { year: 1969, averageWageIndex: 5893.76, taxableMaximum: 7800 },
+    { year: 1970, averageWageIndex: 6186.24, taxableMaximum: 7800 },
+    { year: 1971, averageWageIndex: 6497.08, taxableMaximum: 7800 },
+    { year: 1972, averageWageIndex: 7133.80, taxableMaximum: 9000 },
+    { year: 1973, averageWageIndex: 7580.16, taxableMaximum: 10800 },
+    { year: 1974, averageWageIndex: 8030.76, taxableMaximum: 13200 },
+    { year: 1975, averageWageIndex: 8630.92, taxableMaximum: 14100, cola: 8.0 },
+    { year: 1976, averageWageIndex: 9226.48, taxableMaximum: 15300, cola: 6.4 },
+    { year: 1977, averageWageIndex: 9779.44, taxableMaximum: 16500, cola: 5.9 },
+    { year: 1978, averageWageIndex: 10556.03, taxableMaximum: 17700, cola: 6.5 },
+    { year: 1979, averageWageIndex: 11479.46, taxableMaximum: 22900, bendPoints: [180, 1085], cola: 9.9 },
+    { year: 1980, averageWageIndex: 12513.46, taxableMaximum: 25900, bendPoints: [194, 1171], cola: 14.3 },
+    { year: 1981, averageWageIndex: 13773.10, taxableMaximum: 29700, bendPoints: [211, 1274], cola: 11.2 },
+    { year: 1982, averageWageIndex: 14531.34, taxableMaximum: 32400, bendPoints: [230, 1388], cola: 7.4 },
+    { year: 1983, averageWageIndex: 15239.24, taxableMaximum: 35700, bendPoints: [254, 1528], cola: 3.5 },
+    { year: 1984, averageWageIndex: 16135.07, taxableMaximum: 37800, bendPoints: [267, 1612], cola: 3.5 },
+    { year: 1985, averageWageIndex: 16822.51, taxableMaximum: 39600, bendPoints: [280, 1691], cola: 3.1 },
+    { year: 1986, averageWageIndex: 17321.82, taxableMaximum: 42000, bendPoints: [297, 1790], cola: 1.3 },
+    { year: 1987, averageWageIndex: 18426.51, taxableMaximum: 43800, bendPoints: [310, 1866], cola: 4.2 },
+    { year: 1988, averageWageIndex: 19334.04, taxableMaximum: 45000, bendPoints: [319, 1922], cola: 4.0 },
+    { year: 1989, averageWageIndex: 20099.55, taxableMaximum: 48000, bendPoints: [339, 2044], cola: 4.7 },
+    { year: 1990, averageWageIndex: 21027.98, taxableMaximum: 51300, bendPoints: [356, 2145], cola: 5.4 },
+    { year: 1991, averageWageIndex: 21811.60, taxableMaximum: 53400, bendPoints: [370, 2230], cola: 3.7 },
+    { year: 1992, averageWageIndex: 22935.42, taxableMaximum: 55500, bendPoints: [387, 2333], cola: 3.0 },
+    { year: 1993, averageWageIndex: 23132.67, taxableMaximum: 57600, bendPoints: [401, 2420], cola: 2.6 },
+    { year: 1994, averageWageIndex: 23753.53, taxableMaximum: 60600, bendPoints: [422, 2545], cola: 2.8 },
+    { year: 1995, averageWageIndex: 24705.66, taxableMaximum: 61200, bendPoints: [426, 2567], cola: 2.6 },
+    { year: 1996, averageWageIndex: 25913.90, taxableMaximum: 62700, bendPoints: [437, 2635], cola: 2.9 },
+    { year: 1997, averageWageIndex: 27426.00, taxableMaximum: 65400, bendPoints: [455, 2741], cola: 2.1 },
+    { year: 1998, averageWageIndex: 28861.44, taxableMaximum: 68400, bendPoints: [477, 2875], cola: 1.3 },
+    { year: 1999, averageWageIndex: 30469.84, taxableMaximum: 72600, bendPoints: [505, 3043], cola: 2.5 },
+    { year: 2000, averageWageIndex: 32154.82, taxableMaximum: 76200, bendPoints: [531, 3202], cola: 3.5, earningsTestExempt: [10080, 17000] },
+    { year: 2001, averageWageIndex: 32921.92, taxableMaximum: 80400, bendPoints: [561, 3381], cola: 2.6, earningsTestExempt: [10680, 25000] },
+    { year: 2002, averageWageIndex: 33252.09, taxableMaximum: 84900, bendPoints: [592, 3567], cola: 1.4, earningsTestExempt: [11280, 30000] },
+    { year: 2003, averageWageIndex: 34064.95, taxableMaximum: 87000, bendPoints: [606, 3653], cola: 2.1, earningsTestExempt: [11520, 30720] },
+    { year: 2004, averageWageIndex: 35648.55, taxableMaximum: 87900, bendPoints: [612, 3689], cola: 2.7, earningsTestExempt: [11640, 31080] },
+    { year: 2005, averageWageIndex: 36952.94, taxableMaximum: 90000, bendPoints: [627, 3779], cola: 4.1, earningsTestExempt: [12000, 31800] },
+    { year: 2006, averageWageIndex: 38651.41, taxableMaximum: 94200, bendPoints: [656, 3955], cola: 3.3, earningsTestExempt: [12480, 33240] },
+    { year: 2007, averageWageIndex: 40405.48, taxableMaximum: 97500, bendPoints: [680, 4100], cola: 2.3, earningsTestExempt: [12960, 34440] },
+    { year: 2008, averageWageIndex: 41334.97, taxableMaximum: 102000, bendPoints: [711, 4288], cola: 5.8, earningsTestExempt: [13560, 36120] },
+    { year: 2009, averageWageIndex: 40711.61, taxableMaximum: 106800, bendPoints: [744, 4483], cola: 0.0, earningsTestExempt: [14160, 37680] },
+    { year: 2010, averageWageIndex: 41673.83, taxableMaximum: 106800, bendPoints: [761, 4586], cola: 0.0, earningsTestExempt: [14160, 37680] },
+    { year: 2011, averageWageIndex: 42979.61, taxableMaximum: 106800, bendPoints: [749, 4517], cola: 3.6, earningsTestExempt: [14160, 37680] },
+    { year: 2012, averageWageIndex: 44321.67, taxableMaximum: 110100, bendPoints: [767, 4624], cola: 1.7, earningsTestExempt: [14640, 38880] },
+    { year: 2013, averageWageIndex: 44888.16, taxableMaximum: 113700, bendPoints: [791, 4768], cola: 1.5, earningsTestExempt: [15120, 40080] },
+    { year: 2014, averageWageIndex: 46481.52, taxableMaximum: 117000, bendPoints: [816, 4917], cola: 1.7, earningsTestExempt: [15480, 41400] },
+    { year: 2015, averageWageIndex: 48098.63, taxableMaximum: 118500, bendPoints: [826, 4980], cola: 0.0, earningsTestExempt: [15720, 41880] },
+    { year: 2016, averageWageIndex: 48642.15, taxableMaximum: 118500, bendPoints: [856, 5157], cola: 0.3, earningsTestExempt: [15720, 41880] },
+    { year: 2017, averageWageIndex: 50321.89, taxableMaximum: 127200, bendPoints: [885, 5336], cola: 2.0, earningsTestExempt: [16920, 44880] },
+    { year: 2018, averageWageIndex: 52145.80, taxableMaximum: 128400, bendPoints: [895, 5397], cola: 2.8, earningsTestExempt: [17040, 45360] },
+    { year: 2019, averageWageIndex: 54099.99, taxableMaximum: 132900, bendPoints: [926, 5583], cola: 1.6, earningsTestExempt: [17640, 46920] },
+    { year: 2020, averageWageIndex: 55628.60, taxableMaximum: 137700, bendPoints: [960, 5785], cola: 1.3, earningsTestExempt: [18240, 48600] },
+    { year: 2021, averageWageIndex: 60575.07, taxableMaximum: 142800, bendPoints: [996, 6002], cola: 5.9, earningsTestExempt: [18960, 50520] },
+    { year: 2022, averageWageIndex: 63795.13, taxableMaximum: 147000, bendPoints: [1024, 6172], cola: 8.7, earningsTestExempt: [19560, 51960] },
+    { year: 2023, averageWageIndex: 66621.80, taxableMaximum: 160200, bendPoints: [1115, 6721], cola: 3.2, earningsTestExempt: [21240, 56520] },
+    { year: 2024, averageWageIndex: 69846.57, taxableMaximum: 168600, bendPoints: [1174, 7078], cola: 2.5, earningsTestExempt: [22320, 59520] },
+    { year: 2025, taxableMaximum: 176100, bendPoints: [1226, 7391], cola: 2.8, earningsTestExempt: [23400, 62160] },
+    { year: 2026, taxableMaximum: 184500, bendPoints: [1286, 7749], earningsTestExempt: [24480, 65160] },
+  ],
+};
+
+// Published AWI and taxable maximum by year, as exported before the parameter table existed
+export const AVERAGE_WAGE_INDEX: Record<number, number> = toSeries((y) => y.averageWageIndex);
+export const TAXABLE_MAXIMUM: Record<number, number> = toSeries((y) => y.taxableMaximum);
+
+// 1979 formula bend points, scaled by the AWI of the year two years before eligibility
+const BASE_BEND_POINTS: [number, number] = [180, 1085];
+const BASE_BEND_POINT_AWI = 9779.44;   // 1977
+
+// --- Lookups ---
+// Years without a published value are projected from the latest earlier one: the AWI grows at the
+// wage growth rate, and the taxable maximum, bend points and earnings test amounts follow the AWI
+// two years earlier, rounded the way the SSA rounds them.
+export function getAverageWageIndex(
+  year: number,
+  wageGrowthRate?: number,
+  options: SocialSecurityParameterOptions = {}
+): number {
+  const { parameters = SOCIAL_SECURITY_PARAMETERS } = options;
+  const growthRate = wageGrowthRate ?? parameters.projection.wageGrowthRate;
+  const base = findBaseYear(parameters, year, (y) => y.averageWageIndex);
+  if (!base) return 0;
+  return base.value * Math.pow(1 + growthRate / 100, Math.max(year - base.year, 0));
+}
+
+export function getTaxableMaximum(
+  year: number,
+  wageGrowthRate?: number,
+  options: SocialSecurityParameterOptions = {}
+): number {
+  const base = findBaseYear(options.parameters ?? SOCIAL_SECURITY_PARAMETERS, year, (y) => y.taxableMaximum);
+  if (!base) return 0;
+  if (base.year >= year) return base.value;
+  return Math.round(base.value * wageRatio(year, base.year, wageGrowthRate, options) / 300) * 300;
+}
+
+export function getBendPoints(
+  year: number,
+  wageGrowthRate?: number,
+  options: SocialSecurityParameterOptions = {}
+): [number, number] {
+  const { parameters = SOCIAL_SECURITY_PARAMETERS } = options;
+  const published = parameters.years.find((y) => y.year === year)?.bendPoints;
+  if (published) return published;
+
+  const ratio = getAverageWageIndex(year - 2, wageGrowthRate, options) / BASE_BEND_POINT_AWI;
+  return [Math.round(BASE_BEND_POINTS[0] * ratio), Math.round(BASE_BEND_POINTS[1] * ratio)];
+}
+
+// Published COLA for the year, or undefined when it is not known yet
+export function getCostOfLivingAdjustment(year: number, options: SocialSecurityParameterOptions = {}): number | undefined {
+  const { parameters = SOCIAL_SECURITY_PARAMETERS } = options;
+  return parameters.years.find((y) => y.year === year)?.cola;
+}
+
+export function getEarningsTestExemptAmounts(
+  year: number,
+  wageGrowthRate?: number,
+  options: SocialSecurityParameterOptions = {}
+): { underFullRetirementAge: number; yearOfFullRetirementAge: number } {
+  const base = findBaseYear(options.parameters ?? SOCIAL_SECURITY_PARAMETERS, year, (y) => y.earningsTestExempt);
+  if (!base) return { underFullRetirementAge: 0, yearOfFullRetirementAge: 0 };
+
+  const ratio = base.year >= year ? 1 : wageRatio(year, base.year, wageGrowthRate, options);
+  const [under, fraYear] = base.value;
+  return {
+    underFullRetirementAge: Math.round(under * ratio / 120) * 120,
+    yearOfFullRetirementAge: Math.round(fraYear * ratio / 120) * 120,
+  };
+}
+
+export function validateSocialSecurityParameters(parameters: SocialSecurityParameters): string[] {
+  const messages: string[] = [];
+  const years = parameters.years.map((y) => y.year);
+
+  if (years.length === 0) messages.push("Parameter table needs at least one year");
+  if (new Set(years).size !== years.length) messages.push("Parameter table has duplicate years");
+  if (!parameters.years.some((y) => y.averageWageIndex !== undefined))
+    messages.push("Parameter table needs at least one Average Wage Index");
+  if (parameters.years.some((y) => y.taxableMaximum <= 0 || (y.averageWageIndex ?? 1) <= 0))
+    messages.push("Taxable maximum and Average Wage Index must be positive");
+  if (parameters.years.some((y) => y.bendPoints && !(y.bendPoints[0] > 0 && y.bendPoints[1] > y.bendPoints[0])))
+    messages.push("Bend points must be positive and increasing");
+  if (parameters.piaFactors.some((factor) => factor < 0 || factor > 1))
+    messages.push("PIA factors must be between 0 and 1");
+
+  return messages;
+}
+
+// --- Helpers ---
+// Latest year at or before the target with a value, or the earliest year with one
+function findBaseYear<T>(
+  parameters: SocialSecurityParameters,
+  year: number,
+  pick: (y: SocialSecurityParameterYear) => T | undefined
+): { year: number; value: T } | undefined {
+  let base: { year: number; value: T } | undefined;
+  let earliest: { year: number; value: T } | undefined;
+
+  for (const entry of parameters.years) {
+    const value = pick(entry);
+    if (value === undefined) continue;
+    if (entry.year <= year && (!base || entry.year > base.year)) base = { year: entry.year, value };
+    if (!earliest || entry.year < earliest.year) earliest = { year: entry.year, value };
+  }
+
+  return base ?? earliest;
+}
+
+function wageRatio(
+  year: number,
+  baseYear: number,
+  wageGrowthRate: number | undefined,
+  options: SocialSecurityParameterOptions
+): number {
+  return getAverageWageIndex(year - 2, wageGrowthRate, options) / getAverageWageIndex(baseYear - 2, wageGrowthRate, options);
+}
+
+function toSeries(pick: (y: SocialSecurityParameterYear) => number | undefined): Record<number, number> {
+  const series: Record<number, number> = {};
+  for (const entry of SOCIAL_SECURITY_PARAMETERS.years) {
+    const value = pick(entry);
+    if (value !== undefined) series[entry.year] = value;
+  }
+  return series;
+}
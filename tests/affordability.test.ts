@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { calculateHomeAffordability } from '../src/mortgage/affordability';
+import { calculateMonthlyPayment } from '../src/mortgage/amortization';
+
+describe('Home Affordability', () => {
+  const input = {
+    annualIncome: 120_000,
+    monthlyDebts: 500,
+    downPayment: 60_000,
+    annualRate: 6,
+    termYears: 30,
+    propertyTaxRate: 1.2,
+    annualInsurance: 1_800,
+    monthlyHoaFee: 0,
+    limits: 'conventional' as const,
+  };
+
+  describe('Normal cases', () => {
+    it('should spend exactly the front-end limit when it binds', () => {
+      const result = calculateHomeAffordability(input);
+
+      expect(result.bindingConstraint).toBe('frontEnd');
+      expect(result.maxHousingPayment).toBeCloseTo(2_800, 6); // 28% of 10,000
+      expect(result.frontEndRatio).toBeCloseTo(28, 6);
+      expect(result.maxLoanAmount).toBeCloseTo(result.maxHomePrice - 60_000, 6);
+      expect(result.monthlyPrincipalAndInterest)
+        .toBeCloseTo(calculateMonthlyPayment(result.maxLoanAmount, 6, 360), 6);
+    });
+
+    it('should switch to the back-end limit when other debts are high', () => {
+      const result = calculateHomeAffordability({ ...input, monthlyDebts: 1_500 });
+
+      expect(result.bindingConstraint).toBe('backEnd');
+      expect(result.backEndRatio).toBeCloseTo(36, 6);
+      expect(result.frontEndRatio).toBeLessThan(28);
+    });
+
+    it('should allow a larger home under FHA and VA limits', () => {
+      const conventional = calculateHomeAffordability(input);
+      const fha = calculateHomeAffordability({ ...input, limits: 'fha' });
+      const va = calculateHomeAffordability({ ...input, limits: 'va' });
+
+      expect(fha.maxHomePrice).toBeGreaterThan(conventional.maxHomePrice);
+      expect(va.bindingConstraint).toBe('backEnd');
+      expect(va.backEndRatio).toBeCloseTo(41, 6);
+    });
+
+    it('should accept custom limits', () => {
+      const result = calculateHomeAffordability({ ...input, limits: { frontEnd: 25, backEnd: 45 } });
+
+      expect(result.frontEndRatio).toBeCloseTo(25, 6);
+    });
+
+    it('should include PMI when the down payment is under 20%', () => {
+      const withoutPmi = calculateHomeAffordability({ ...input, downPayment: 20_000 });
+      const withPmi = calculateHomeAffordability({ ...input, downPayment: 20_000, pmiRate: 0.5 });
+
+      expect(withPmi.monthlyPmi).toBeGreaterThan(0);
+      expect(withPmi.maxHomePrice).toBeLessThan(withoutPmi.maxHomePrice);
+      expect(withPmi.frontEndRatio).toBeCloseTo(28, 6);
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('should return the down payment only when debts use up the back-end limit', () => {
+      const result = calculateHomeAffordability({ ...input, monthlyDebts: 5_000 });
+
+      expect(result.maxHomePrice).toBe(input.downPayment);
+      expect(result.maxLoanAmount).toBe(0);
+      expect(result.maxHousingPayment).toBe(0);
+    });
+
+    it('throws if income is not positive', () => {
+      expect(() => calculateHomeAffordability({ ...input, annualIncome: 0 })).toThrow();
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { calculateApr } from '../src/mortgage/apr';
+
+describe('APR Calculation', () => {
+  const loan = {
+    loanAmount: 200000,
+    annualRate: 6,
+    termYears: 30,
+    startDate: new Date(2025, 0, 1),
+  };
+
+  describe('Normal cases', () => {
+    it('should equal the note rate when there are no finance charges', () => {
+      const result = calculateApr({ loan });
+
+      expect(result.apr).toBeCloseTo(6, 6);
+      expect(result.amountFinanced).toBe(200000);
+    });
+
+    it('should raise the APR above the note rate with points and fees', () => {
+      const result = calculateApr({ loan, discountPoints: 1, originationFees: 1000, otherFinanceCharges: 500 });
+
+      expect(result.prepaidFinanceCharges).toBe(3500);
+      expect(result.amountFinanced).toBe(196500);
+      expect(result.apr).toBeGreaterThan(6.15);
+      expect(result.apr).toBeLessThan(6.2);
+    });
+
+    it('should report the total of payments and finance charge', () => {
+      const result = calculateApr({ loan, discountPoints: 1 });
+      const totalInterest = result.schedule.reduce((sum, row) => sum + row.interest, 0);
+
+      expect(result.totalOfPayments).toBeCloseTo(200000 + totalInterest, 4);
+      expect(result.financeCharge).toBeCloseTo(totalInterest + 2000, 4);
+    });
+
+    it('should treat PMI as a finance charge', () => {
+      const withoutPmi = calculateApr({ loan: { ...loan, homeValue: 222000 } });
+      const withPmi = calculateApr({ loan: { ...loan, homeValue: 222000, pmiRate: 0.5 } });
+
+      expect(withPmi.apr).toBeGreaterThan(withoutPmi.apr);
+      expect(withPmi.financeCharge).toBeGreaterThan(withoutPmi.financeCharge);
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('throws if fees are negative', () => {
+      expect(() => calculateApr({ loan, originationFees: -100 })).toThrow();
+    });
+
+    it('throws if prepaid charges exceed the loan amount', () => {
+      expect(() => calculateApr({ loan, otherFinanceCharges: 250000 })).toThrow();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { calculateRetirementSavingsBacktest } from '../src/retirement/backtest';
+import { HISTORICAL_RETURNS } from '../src/retirement/historicalReturns';
+
+describe('Retirement Savings Backtest', () => {
+  // 30-year retirement starting at 65
+  const savings = {
+    startYear: 2025,
+    birthYear: 1960,
+    initialBalance: 1_000_000,
+    initialContribution: 0,
+    estimatedYield: 6,
+    estimatedWithdrawRate: 4,
+    contributionIncreaseRate: 0,
+    withdrawStartAge: 65,
+    lifeExpectancyAge: 94,
+  };
+
+  describe('Normal cases', () => {
+    it('should run one cohort per complete historical window', () => {
+      const result = calculateRetirementSavingsBacktest({ savings, stockAllocation: 60 });
+
+      expect(result.cohorts).toHaveLength(HISTORICAL_RETURNS.length - 30 + 1);
+      expect(result.cohorts[0]!.historicalStartYear).toBe(1928);
+      expect(result.cohorts.at(-1)!.historicalStartYear).toBe(1995);
+      expect(result.cohorts[0]!.rows).toHaveLength(30);
+      expect(result.cohorts[0]!.rows.at(-1)!.historicalYear).toBe(1957);
+    });
+
+    it('should blend stock and bond returns by allocation', () => {
+      const result = calculateRetirementSavingsBacktest({ savings, stockAllocation: 60 });
+      const first = result.cohorts[0]!.rows[0]!;
+
+      // 1928: stocks 43.81%, bonds 0.84%
+      expect(first.yieldPercent).toBeCloseTo(0.6 * 43.81 + 0.4 * 0.84, 2);
+      expect(first.endingBalance).toBeCloseTo(1_000_000 * (1 + (0.6 * 43.81 + 0.4 * 0.84) / 100) - 40_000, 0);
+      expect(first.realEndingBalance).toBeCloseTo(first.endingBalance / 0.99, 0);
+    });
+
+    it('should keep withdrawals constant in real terms when adjusting for inflation', () => {
+      const result = calculateRetirementSavingsBacktest({ savings, stockAllocation: 60, adjustWithdrawalsForInflation: true });
+      const rows = result.cohorts.find(c => c.historicalStartYear === 1966)!.rows;
+
+      expect(rows[0]!.annualWithdraw).toBeCloseTo(40_000, 6);
+      // 1966 CPI 3.5%, 1967 CPI 3.0%
+      expect(rows[1]!.annualWithdraw).toBeCloseTo(40_000 * 1.035, 6);
+      expect(rows[2]!.annualWithdraw).toBeCloseTo(40_000 * 1.035 * 1.03, 6);
+    });
+
+    it('should report the success rate and the worst and best start years', () => {
+      const result = calculateRetirementSavingsBacktest({
+        savings: { ...savings, estimatedWithdrawRate: 5 },
+        stockAllocation: 50,
+        adjustWithdrawalsForInflation: true,
+      });
+
+      const failures = result.cohorts.filter(c => !c.success);
+      expect(failures.length).toBeGreaterThan(0);
+      expect(result.successRate).toBeCloseTo(1 - failures.length / result.cohorts.length, 10);
+      failures.forEach(c => expect(c.depletionAge).not.toBeNull());
+
+      const worst = result.cohorts.find(c => c.historicalStartYear === result.worstStartYear)!;
+      const best = result.cohorts.find(c => c.historicalStartYear === result.bestStartYear)!;
+      expect(worst.success).toBe(false);
+      expect(worst.depletionAge).toBe(Math.min(...failures.map(c => c.depletionAge!)));
+      expect(best.success).toBe(true);
+      result.cohorts.filter(c => c.success).forEach(c => {
+        expect(c.realEndingBalance).toBeLessThanOrEqual(best.realEndingBalance);
+      });
+    });
+
+    it('should respect yearOverrides that fix the yield', () => {
+      const result = calculateRetirementSavingsBacktest({
+        savings: { ...savings, yearOverrides: { 2025: { yieldPercent: 0 } } },
+        stockAllocation: 100,
+      });
+
+      result.cohorts.forEach(c => expect(c.rows[0]!.endingBalance).toBeCloseTo(960_000, 6));
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('should accept a custom dataset', () => {
+      const historicalReturns = [
+        { year: 2001, stocks: 10, bonds: 0, inflation: 0 },
+        { year: 2002, stocks: -10, bonds: 0, inflation: 0 },
+        { year: 2003, stocks: 20, bonds: 0, inflation: 0 },
+      ];
+      const result = calculateRetirementSavingsBacktest({
+        savings: { ...savings, lifeExpectancyAge: 65 },
+        stockAllocation: 100,
+        historicalReturns,
+      });
+
+      expect(result.cohorts.map(c => c.historicalStartYear)).toEqual([2001, 2002, 2003]);
+      expect(result.worstStartYear).toBe(2002);
+      expect(result.bestStartYear).toBe(2003);
+      expect(result.successRate).toBe(1);
+    });
+
+    it('should throw when the projection is longer than the dataset', () => {
+      expect(() => calculateRetirementSavingsBacktest({
+        savings: { ...savings, birthYear: 1900, startYear: 1900, lifeExpectancyAge: 120 },
+        stockAllocation: 60,
+      })).toThrow("Backtest input validation failed");
+    });
+
+    it('should throw on an invalid allocation', () => {
+      expect(() => calculateRetirementSavingsBacktest({ savings, stockAllocation: 120 }))
+        .toThrow("Backtest input validation failed");
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TSP_MATCH_FORMULA,
+  calculateEmployerMatch,
+  getEmployeeContributionLimit,
+} from '../src/retirement/contributionLimits';
+import { calculateRetirementSavingsProjectionWithOverrides } from '../src/retirement/savings';
+
+describe('Contribution Limits and Employer Match', () => {
+  const input = {
+    startYear: 2025,
+    birthYear: 1975,
+    initialBalance: 100_000,
+    initialContribution: 30_000,
+    estimatedYield: 5,
+    estimatedWithdrawRate: 4,
+    contributionIncreaseRate: 0,
+    withdrawStartAge: 65,
+    lifeExpectancyAge: 90,
+  };
+
+  describe('Normal cases', () => {
+    it('should return table limits with catch-up by age', () => {
+      expect(getEmployeeContributionLimit(2025, 45, { planType: '401k' })).toBe(23_500);
+      expect(getEmployeeContributionLimit(2025, 50, { planType: 'tsp' })).toBe(31_000);
+      expect(getEmployeeContributionLimit(2025, 61, { planType: 'tsp' })).toBe(34_750);
+      expect(getEmployeeContributionLimit(2025, 64, { planType: '401k' })).toBe(31_000);
+      expect(getEmployeeContributionLimit(2026, 40, { planType: 'ira' })).toBe(7_500);
+      expect(getEmployeeContributionLimit(2026, 55, { planType: 'ira' })).toBe(8_600);
+    });
+
+    it('should index limits past the table and round down', () => {
+      // 24,500 * 1.025 = 25,112.5 -> 25,000
+      expect(getEmployeeContributionLimit(2027, 40, { planType: '401k' })).toBe(25_000);
+      expect(getEmployeeContributionLimit(2027, 40, { planType: '401k', limitIndexRate: 0 })).toBe(24_500);
+    });
+
+    it('should apply the TSP automatic and matching contributions', () => {
+      expect(calculateEmployerMatch(100_000, 5_000, TSP_MATCH_FORMULA)).toBeCloseTo(5_000, 6);
+      expect(calculateEmployerMatch(100_000, 3_000, TSP_MATCH_FORMULA)).toBeCloseTo(4_000, 6);
+      expect(calculateEmployerMatch(100_000, 0, TSP_MATCH_FORMULA)).toBeCloseTo(1_000, 6);
+      expect(calculateEmployerMatch(100_000, 20_000, TSP_MATCH_FORMULA)).toBeCloseTo(5_000, 6);
+    });
+
+    it('should apply tiered private-plan formulas', () => {
+      const formula = { tiers: [{ matchPercent: 100, salaryPercent: 1 }, { matchPercent: 50, salaryPercent: 5 }] };
+      expect(calculateEmployerMatch(80_000, 4_800, formula)).toBeCloseTo(800 + 2_000, 6);
+    });
+
+    it('should cap employee contributions and add the employer match in rows', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        initialContribution: 40_000,
+        contributionLimits: { planType: 'tsp', limitIndexRate: 0 },
+        salary: 100_000,
+        employerMatch: TSP_MATCH_FORMULA,
+      });
+      const first = rows[0]!;
+
+      expect(first.employeeContribution).toBe(31_000);
+      expect(first.employerContribution).toBeCloseTo(5_000, 6);
+      expect(first.contribution).toBeCloseTo(36_000, 6);
+      expect(first.endingBalance).toBeCloseTo(100_000 * 1.05 + 36_000, 6);
+
+      expect(rows.find(r => r.age === 60)!.employeeContribution).toBe(24_500 + 11_250);
+      expect(rows.find(r => r.age === 64)!.employeeContribution).toBe(24_500 + 8_000);
+    });
+
+    it('should grow the salary used for the match', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        initialContribution: 0,
+        salary: 100_000,
+        salaryIncreaseRate: 10,
+        employerMatch: TSP_MATCH_FORMULA,
+      });
+
+      expect(rows[1]!.employerContribution).toBeCloseTo(1_100, 6);
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('should leave contributions uncapped without limits', () => {
+      const first = calculateRetirementSavingsProjectionWithOverrides(input)[0]!;
+
+      expect(first.employeeContribution).toBe(30_000);
+      expect(first.employerContribution).toBe(0);
+      expect(first.contribution).toBe(30_000);
+    });
+
+    it('should stop employer contributions once withdrawals start', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        salary: 100_000,
+        employerMatch: TSP_MATCH_FORMULA,
+      });
+
+      expect(rows.find(r => r.age === 65)!.employerContribution).toBe(0);
+    });
+
+    it('should require a salary for an employer match', () => {
+      expect(() => calculateRetirementSavingsProjectionWithOverrides({ ...input, employerMatch: TSP_MATCH_FORMULA }))
+        .toThrow("Retirement Savings input validation failed");
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { calculateInvestmentFees } from '../src/retirement/fees';
+import {
+  calculateFeeImpact,
+  calculateRetirementSavingsProjectionWithOverrides,
+} from '../src/retirement/savings';
+
+describe('Investment Fees', () => {
+  const input = {
+    startYear: 2025,
+    birthYear: 1980,
+    initialBalance: 500_000,
+    initialContribution: 20_000,
+    estimatedYield: 6,
+    estimatedWithdrawRate: 4,
+    contributionIncreaseRate: 0,
+    withdrawStartAge: 65,
+    lifeExpectancyAge: 90,
+  };
+
+  describe('Normal cases', () => {
+    it('should combine expense ratio, advisory fee and flat fee', () => {
+      expect(calculateInvestmentFees(500_000, { expenseRatio: 0.5, advisoryFee: 1, flatAnnualFee: 100 }))
+        .toBeCloseTo(2_500 + 5_000 + 100, 6);
+    });
+
+    it('should apply tiered advisory fees marginally', () => {
+      const tiers = [
+        { upTo: 1_000_000, rate: 1 },
+        { upTo: 5_000_000, rate: 0.75 },
+        { upTo: Infinity, rate: 0.5 },
+      ];
+
+      expect(calculateInvestmentFees(500_000, { advisoryFee: tiers })).toBeCloseTo(5_000, 6);
+      expect(calculateInvestmentFees(2_000_000, { advisoryFee: tiers })).toBeCloseTo(10_000 + 7_500, 6);
+      expect(calculateInvestmentFees(6_000_000, { advisoryFee: tiers })).toBeCloseTo(10_000 + 30_000 + 5_000, 6);
+    });
+
+    it('should deduct fees each year and report them in rows', () => {
+      const first = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        fees: { expenseRatio: 0.2, advisoryFee: 1 },
+      })[0]!;
+
+      expect(first.fees).toBeCloseTo(6_000, 6);
+      expect(first.endingBalance).toBeCloseTo(500_000 * 1.06 + 20_000 - 6_000, 6);
+      expect(first.yieldPercent).toBe(6);
+    });
+
+    it('should report the lifetime cost of fees against a zero-fee baseline', () => {
+      const report = calculateFeeImpact({ ...input, fees: { advisoryFee: 1 } });
+
+      expect(report.baseline.every(r => r.fees === 0)).toBe(true);
+      expect(report.totalFees).toBeCloseTo(report.projection.reduce((sum, r) => sum + r.fees, 0), 6);
+      expect(report.baselineEndingBalance).toBeGreaterThan(report.endingBalance);
+      expect(report.baselineTotalWithdrawals).toBeGreaterThan(report.totalWithdrawals);
+      expect(report.lostGrowth).toBeGreaterThan(0);
+      expect(report.lifetimeCost).toBeCloseTo(report.totalFees + report.lostGrowth, 6);
+      expect(report.lifetimeCost).toBeCloseTo(
+        report.baselineEndingBalance + report.baselineTotalWithdrawals - report.endingBalance - report.totalWithdrawals,
+        6
+      );
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('should charge nothing on an empty balance', () => {
+      expect(calculateInvestmentFees(0, { expenseRatio: 1, flatAnnualFee: 50 })).toBe(0);
+    });
+
+    it('should include fees when solving an ending balance override', () => {
+      const first = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        fees: { flatAnnualFee: 1_000 },
+        yearOverrides: { 2025: { endingBalance: 550_000 } },
+      })[0]!;
+
+      // 550,000 = 500,000 + yield + 20,000 - 1,000
+      expect(first.yieldPercent).toBeCloseTo(6.2, 6);
+      expect(first.endingBalance).toBe(550_000);
+    });
+
+    it('should throw on negative fees', () => {
+      expect(() => calculateRetirementSavingsProjectionWithOverrides({ ...input, fees: { expenseRatio: -1 } }))
+        .toThrow("Retirement Savings input validation failed");
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TSP_ASSET_CLASSES,
+  calculateGlidePathAllocation,
+  calculatePortfolioReturn,
+  createTspLFundGlidePath,
+} from '../src/retirement/glidePath';
+import { calculateRetirementSavingsProjectionWithOverrides } from '../src/retirement/savings';
+
+describe('Asset Allocation Glide Path', () => {
+  const assetClasses = [
+    { name: 'stocks', expectedReturn: 8, volatility: 16 },
+    { name: 'bonds', expectedReturn: 4, volatility: 6 },
+  ];
+  const ageRule = { type: 'ageRule' as const, base: 110, equity: 'stocks', fixedIncome: 'bonds' };
+  const input = {
+    startYear: 2025,
+    birthYear: 1980,
+    initialBalance: 100_000,
+    initialContribution: 0,
+    estimatedYield: 5,
+    estimatedWithdrawRate: 4,
+    contributionIncreaseRate: 0,
+    withdrawStartAge: 65,
+    lifeExpectancyAge: 90,
+  };
+
+  describe('Normal cases', () => {
+    it('should apply the 110-minus-age rule', () => {
+      expect(calculateGlidePathAllocation(ageRule, 45, 2025)).toEqual({ stocks: 65, bonds: 35 });
+      expect(calculateGlidePathAllocation(ageRule, 120, 2100)).toEqual({ stocks: 0, bonds: 100 });
+    });
+
+    it('should interpolate a schedule between points', () => {
+      const schedule = {
+        type: 'schedule' as const,
+        by: 'age' as const,
+        points: [
+          { at: 40, allocation: { stocks: 90, bonds: 10 } },
+          { at: 60, allocation: { stocks: 50, bonds: 50 } },
+        ],
+      };
+
+      expect(calculateGlidePathAllocation(schedule, 30, 2015)).toEqual({ stocks: 90, bonds: 10 });
+      expect(calculateGlidePathAllocation(schedule, 50, 2035)).toEqual({ stocks: 70, bonds: 30 });
+      expect(calculateGlidePathAllocation(schedule, 70, 2055)).toEqual({ stocks: 50, bonds: 50 });
+    });
+
+    it('should approximate the TSP L Fund glide path', () => {
+      const glidePath = createTspLFundGlidePath(2045);
+      const farOut = calculateGlidePathAllocation(glidePath, 0, 2000);
+      const atTarget = calculateGlidePathAllocation(glidePath, 0, 2045);
+
+      expect((farOut.C ?? 0) + (farOut.S ?? 0) + (farOut.I ?? 0)).toBeGreaterThan(95);
+      expect(atTarget.G).toBe(60);
+      expect(calculateGlidePathAllocation(glidePath, 0, 2060)).toEqual(atTarget);
+      const midway = calculateGlidePathAllocation(glidePath, 0, 2035);
+      expect(Object.values(midway).reduce((a, b) => a + b, 0)).toBeCloseTo(100, 6);
+    });
+
+    it('should blend expected return and volatility', () => {
+      const result = calculatePortfolioReturn({ stocks: 60, bonds: 40 }, assetClasses);
+
+      expect(result.expectedReturn).toBeCloseTo(6.4, 6);
+      expect(result.volatility).toBeCloseTo(Math.sqrt(0.36 * 256 + 0.16 * 36), 6);
+      expect(calculatePortfolioReturn({ stocks: 60, bonds: 40 }, assetClasses, 1).volatility).toBeCloseTo(12, 6);
+    });
+
+    it('should feed the blended yield into the projection and expose the allocation', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        assetAllocation: { assetClasses, glidePath: ageRule },
+      });
+
+      expect(rows[0]!.allocation).toEqual({ stocks: 65, bonds: 35 });
+      expect(rows[0]!.yieldPercent).toBeCloseTo(6.6, 6);
+      expect(rows[0]!.endingBalance).toBeCloseTo(106_600, 6);
+      expect(rows[10]!.allocation).toEqual({ stocks: 55, bonds: 45 });
+      expect(rows[10]!.yieldPercent).toBeCloseTo(6.2, 6);
+    });
+
+    it('should work with the TSP presets', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        assetAllocation: { assetClasses: TSP_ASSET_CLASSES, glidePath: createTspLFundGlidePath(2045) },
+      });
+
+      expect(rows[0]!.yieldPercent).toBeGreaterThan(rows.find(r => r.year === 2045)!.yieldPercent);
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('should let the allocation drift between rebalances', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        assetAllocation: { assetClasses, glidePath: ageRule, rebalanceEveryYears: 5 },
+      });
+
+      // Stocks outgrow bonds in year 2
+      const stocks = 65 * 1.08 / (65 * 1.08 + 35 * 1.04) * 100;
+      expect(rows[1]!.allocation!.stocks).toBeCloseTo(stocks, 6);
+      expect(rows[5]!.allocation).toEqual({ stocks: 60, bonds: 40 });
+    });
+
+    it('should keep yield overrides', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        assetAllocation: { assetClasses, glidePath: ageRule },
+        yearOverrides: { 2025: { yieldPercent: -10 } },
+      });
+
+      expect(rows[0]!.yieldPercent).toBe(-10);
+      expect(rows[0]!.allocation).toEqual({ stocks: 65, bonds: 35 });
+    });
+
+    it('should throw when the glide path does not add up', () => {
+      expect(() => calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        assetAllocation: {
+          assetClasses,
+          glidePath: { type: 'schedule', by: 'year', points: [{ at: 2025, allocation: { stocks: 70, bonds: 20 } }] },
+        },
+      })).toThrow("Retirement Savings input validation failed");
+    });
+  });
+});
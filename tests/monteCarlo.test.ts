@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { calculateRetirementSavingsMonteCarlo } from '../src/retirement/monteCarlo';
+
+describe('Retirement Savings Monte Carlo', () => {
+  const savings = {
+    startYear: 2025,
+    birthYear: 1965,
+    initialBalance: 800_000,
+    initialContribution: 0,
+    estimatedYield: 6,
+    estimatedWithdrawRate: 4,
+    contributionIncreaseRate: 0,
+    withdrawStartAge: 60,
+    lifeExpectancyAge: 95,
+  };
+
+  describe('Normal cases', () => {
+    it('should return percentile bands for every projected year', () => {
+      const result = calculateRetirementSavingsMonteCarlo({
+        savings,
+        distribution: { mean: 6, standardDeviation: 12 },
+        trials: 500,
+        seed: 7,
+      });
+
+      expect(result.trials).toBe(500);
+      expect(result.percentiles).toHaveLength(36);
+      expect(result.percentiles[0]!.year).toBe(2025);
+      expect(result.percentiles.at(-1)!.age).toBe(95);
+      result.percentiles.forEach(p => {
+        expect(p.p10).toBeLessThanOrEqual(p.p25);
+        expect(p.p25).toBeLessThanOrEqual(p.p50);
+        expect(p.p50).toBeLessThanOrEqual(p.p75);
+        expect(p.p75).toBeLessThanOrEqual(p.p90);
+      });
+    });
+
+    it('should be reproducible for the same seed', () => {
+      const input = { savings, distribution: { mean: 6, standardDeviation: 12 }, trials: 200, seed: 42 };
+
+      expect(calculateRetirementSavingsMonteCarlo(input)).toEqual(calculateRetirementSavingsMonteCarlo(input));
+      expect(calculateRetirementSavingsMonteCarlo({ ...input, seed: 43 }).percentiles[10])
+        .not.toEqual(calculateRetirementSavingsMonteCarlo(input).percentiles[10]);
+    });
+
+    it('should center the median near the deterministic projection', () => {
+      const result = calculateRetirementSavingsMonteCarlo({
+        savings,
+        distribution: { mean: 6, standardDeviation: 5 },
+        trials: 2_000,
+        seed: 3,
+      });
+
+      // One year at 6% yield less a 4% withdrawal
+      expect(result.percentiles[0]!.p50).toBeCloseTo(816_000, -4);
+    });
+
+    it('should widen the tails with fat-tailed returns', () => {
+      const normal = calculateRetirementSavingsMonteCarlo({
+        savings,
+        distribution: { mean: 6, standardDeviation: 15 },
+        trials: 2_000,
+        seed: 11,
+      });
+      const fatTailed = calculateRetirementSavingsMonteCarlo({
+        savings,
+        distribution: { mean: 6, standardDeviation: 15, degreesOfFreedom: 3 },
+        trials: 2_000,
+        seed: 11,
+      });
+
+      const spread = (p: { p10: number; p90: number }) => p.p90 - p.p10;
+      // Same variance, but more mass in the center: the interdecile range narrows
+      expect(spread(fatTailed.percentiles[0]!)).toBeLessThan(spread(normal.percentiles[0]!));
+    });
+
+    it('should report depletion ages when fixed withdrawals exhaust the balance', () => {
+      const yearOverrides: Record<number, { annualWithdraw: number }> = {};
+      for (let year = 2025; year <= 2060; year++) yearOverrides[year] = { annualWithdraw: 60_000 };
+
+      const result = calculateRetirementSavingsMonteCarlo({
+        savings: { ...savings, yearOverrides },
+        distribution: { mean: 4, standardDeviation: 15 },
+        trials: 1_000,
+        seed: 5,
+      });
+
+      expect(result.successProbability).toBeGreaterThan(0);
+      expect(result.successProbability).toBeLessThan(1);
+      const failed = result.depletionAges.reduce((sum, d) => sum + d.trials, 0);
+      expect(failed).toBe(1_000 - Math.round(result.successProbability * 1_000));
+      result.depletionAges.forEach(d => {
+        expect(d.age).toBeGreaterThanOrEqual(60);
+        expect(d.probability).toBeCloseTo(d.trials / 1_000, 10);
+      });
+    });
+
+    it('should keep yields fixed by yearOverrides', () => {
+      const result = calculateRetirementSavingsMonteCarlo({
+        savings: { ...savings, yearOverrides: { 2025: { yieldPercent: 10 }, 2026: { endingBalance: 900_000 } } },
+        distribution: { mean: 6, standardDeviation: 20 },
+        trials: 100,
+      });
+
+      expect(result.percentiles[0]!.p10).toBeCloseTo(848_000, 6);
+      expect(result.percentiles[0]!.p90).toBeCloseTo(848_000, 6);
+      expect(result.percentiles[1]!.p10).toBe(900_000);
+      expect(result.percentiles[1]!.p90).toBe(900_000);
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('should match the deterministic projection with zero volatility', () => {
+      const result = calculateRetirementSavingsMonteCarlo({
+        savings,
+        distribution: { mean: 6, standardDeviation: 0 },
+        trials: 10,
+      });
+
+      expect(result.successProbability).toBe(1);
+      expect(result.depletionAges).toEqual([]);
+      expect(result.percentiles[0]!.p10).toBeCloseTo(816_000, 6);
+      expect(result.percentiles[0]!.p90).toBeCloseTo(816_000, 6);
+    });
+
+    it('should throw on invalid trials or degrees of freedom', () => {
+      expect(() => calculateRetirementSavingsMonteCarlo({
+        savings,
+        distribution: { mean: 6, standardDeviation: 12 },
+        trials: 0,
+      })).toThrow("Monte Carlo input validation failed");
+
+      expect(() => calculateRetirementSavingsMonteCarlo({
+        savings,
+        distribution: { mean: 6, standardDeviation: 12, degreesOfFreedom: 2 },
+        trials: 10,
+      })).toThrow("Monte Carlo input validation failed");
+    });
+  });
+});
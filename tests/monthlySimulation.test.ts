@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { calculateRetirementSavingsProjectionWithOverrides } from '../src/retirement/savings';
+
+describe('Monthly Retirement Savings Simulation', () => {
+  const input = {
+    startYear: 2025,
+    birthYear: 1980,
+    initialBalance: 100_000,
+    initialContribution: 12_000,
+    estimatedYield: 6,
+    estimatedWithdrawRate: 4,
+    contributionIncreaseRate: 0,
+    withdrawStartAge: 65,
+    lifeExpectancyAge: 90,
+    simulationFrequency: 'monthly' as const,
+  };
+  const monthlyRate = Math.pow(1.06, 1 / 12) - 1;
+
+  describe('Normal cases', () => {
+    it('should compound monthly to the same annual yield without cash flows', () => {
+      const first = calculateRetirementSavingsProjectionWithOverrides({ ...input, initialContribution: 0 })[0]!;
+
+      expect(first.endingBalance).toBeCloseTo(106_000, 6);
+    });
+
+    it('should grow each monthly contribution for the rest of the year', () => {
+      const first = calculateRetirementSavingsProjectionWithOverrides(input)[0]!;
+
+      let contributions = 0;
+      for (let month = 1; month <= 12; month++) contributions += 1_000 * Math.pow(1 + monthlyRate, 12 - month);
+      expect(first.endingBalance).toBeCloseTo(106_000 + contributions, 6);
+      expect(first.contribution).toBe(12_000);
+    });
+
+    it('should time contributions by pay period', () => {
+      const monthly = calculateRetirementSavingsProjectionWithOverrides(input)[0]!;
+      const biweekly = calculateRetirementSavingsProjectionWithOverrides({ ...input, payPeriodsPerYear: 26 })[0]!;
+      const annualBonus = calculateRetirementSavingsProjectionWithOverrides({ ...input, payPeriodsPerYear: 1 })[0]!;
+
+      expect(biweekly.contribution).toBe(12_000);
+      expect(biweekly.endingBalance).not.toBeCloseTo(monthly.endingBalance, 2);
+      // A single paycheck at year end earns nothing
+      expect(annualBonus.endingBalance).toBeCloseTo(106_000 + 12_000, 6);
+    });
+
+    it('should retire in the birth month of the withdraw start year', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({ ...input, birthMonth: 7 });
+      const retirementYear = rows.find(r => r.age === 65)!;
+      const nextYear = rows.find(r => r.age === 66)!;
+
+      expect(retirementYear.contribution).toBeCloseTo(6_000, 6);
+      expect(retirementYear.annualWithdraw).toBeCloseTo(retirementYear.beginningBalance * 0.04 / 2, 6);
+      expect(retirementYear.monthlyWithdraw).toBeCloseTo(retirementYear.beginningBalance * 0.04 / 12, 6);
+      expect(nextYear.contribution).toBe(0);
+      expect(nextYear.annualWithdraw).toBeCloseTo(nextYear.beginningBalance * 0.04, 6);
+    });
+
+    it('should take monthly withdrawals at the start of each month', () => {
+      const first = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        birthYear: 1960,
+        initialBalance: 1_200_000,
+        initialContribution: 0,
+        estimatedWithdrawRate: 5,
+      })[0]!;
+
+      let balance = 1_200_000;
+      for (let month = 1; month <= 12; month++) balance = (balance - 5_000) * (1 + monthlyRate);
+      expect(first.annualWithdraw).toBeCloseTo(60_000, 6);
+      expect(first.endingBalance).toBeCloseTo(balance, 6);
+    });
+
+    it('should keep the annual row shape', () => {
+      const annual = calculateRetirementSavingsProjectionWithOverrides({ ...input, simulationFrequency: 'annual' });
+      const monthly = calculateRetirementSavingsProjectionWithOverrides(input);
+
+      expect(monthly).toHaveLength(annual.length);
+      expect(Object.keys(monthly[0]!).sort()).toEqual(Object.keys(annual[0]!).sort());
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('should honor ending balance overrides', () => {
+      const first = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        yearOverrides: { 2025: { endingBalance: 120_000 } },
+      })[0]!;
+
+      expect(first.endingBalance).toBe(120_000);
+      expect(first.yieldPercent).toBeCloseTo(8, 6);
+    });
+
+    it('should deduct fees monthly', () => {
+      const first = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        initialContribution: 0,
+        fees: { flatAnnualFee: 120 },
+      })[0]!;
+
+      expect(first.fees).toBeCloseTo(120, 6);
+      expect(first.endingBalance).toBeLessThan(106_000 - 120);
+    });
+
+    it('should throw on an invalid birth month', () => {
+      expect(() => calculateRetirementSavingsProjectionWithOverrides({ ...input, birthMonth: 13 }))
+        .toThrow("Retirement Savings input validation failed");
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { calculateMortgageAmortization } from '../src/mortgage/amortization';
+import { calculateMortgageAmortization, calculatePrepaymentSavings, findPmiEndMonth, groupByYear } from '../src/mortgage/amortization';
 
 describe('Mortgage Amortization', () => {
   describe('Normal cases', () => {
@@ -73,8 +73,8 @@ describe('Mortgage Amortization', () => {
         startDate: new Date(2025, 0, 1), // Jan 1, 2025
       });
 
-      expect(result[0].date).toMatch(/2\/1\/2025|2\/\d+\/2025/); // February 2025
-      expect(result[1].date).toMatch(/3\/\d+\/2025/);            // March 2025
+      expect(result[0].date).toBe('2025-02-01'); // February 2025
+      expect(result[1].date).toBe('2025-03-01'); // March 2025
     });
 
     it('should handle zero interest loan correctly', () => {
@@ -137,4 +137,416 @@ describe('Mortgage Amortization', () => {
       expect(result[0].balance).toBeCloseTo(0, 2);
     });
   });
+  describe('Adjustable-rate mortgages', () => {
+    const arm = {
+      loanAmount: 300000,
+      annualRate: 5,
+      termYears: 30,
+      startDate: new Date(2025, 0, 1),
+      adjustableRate: {
+        initialFixedMonths: 60,
+        adjustmentFrequencyMonths: 12,
+        index: 5,
+        margin: 2.75,
+        initialAdjustmentCap: 2,
+        periodicAdjustmentCap: 1,
+        lifetimeCap: 5,
+      },
+    };
+
+    it('should keep the initial rate and payment during the fixed period', () => {
+      const result = calculateMortgageAmortization(arm);
+
+      expect(result[59].rate).toBe(5);
+      expect(result[59].payment).toBeCloseTo(result[0].payment, 6);
+    });
+
+    it('should apply the initial cap at the first reset and recalculate the payment', () => {
+      const result = calculateMortgageAmortization(arm);
+
+      expect(result[60].rate).toBe(7); // 5 + initial cap of 2, below 7.75 fully indexed
+      expect(result[60].payment).toBeGreaterThan(result[59].payment);
+      expect(result[71].rate).toBe(7);
+      expect(result[72].rate).toBe(7.75); // periodic cap of 1 allows the full index + margin
+    });
+
+    it('should follow a per-adjustment index series within the lifetime cap and floor', () => {
+      const result = calculateMortgageAmortization({
+        ...arm,
+        adjustableRate: { ...arm.adjustableRate, index: [6, 8, 9, 10, 0.5] },
+      });
+
+      expect(result[60].rate).toBe(7);
+      expect(result[72].rate).toBe(8);
+      expect(result[84].rate).toBe(9);
+      expect(result[96].rate).toBe(10);   // lifetime cap: 5 + 5
+      expect(result[108].rate).toBe(9);   // periodic cap limits the decrease
+      expect(result[300].rate).toBe(3.25); // decreases stop at the fully indexed rate
+    });
+
+    it('should fully amortize the loan after rate resets', () => {
+      const result = calculateMortgageAmortization(arm);
+
+      expect(result.length).toBe(360);
+      expect(result.at(-1)!.balance).toBeCloseTo(0, 2);
+    });
+
+    it('should reject an initial fixed period longer than the term', () => {
+      expect(() => calculateMortgageAmortization({
+        ...arm,
+        adjustableRate: { ...arm.adjustableRate, initialFixedMonths: 360 },
+      })).toThrow();
+    });
+  });
+  describe('Prepayment schedules', () => {
+    const loan = {
+      loanAmount: 200000,
+      annualRate: 6,
+      termYears: 30,
+      startDate: new Date(2025, 0, 1),
+    };
+
+    it('should apply a lump sum on the payment number given', () => {
+      const result = calculateMortgageAmortization({
+        ...loan,
+        prepayments: [{ type: 'lumpSum', amount: 10000, month: 12 }],
+      });
+
+      expect(result[11].extraPrincipal).toBe(10000);
+      expect(result[10].extraPrincipal).toBe(0);
+      expect(result[12].extraPrincipal).toBe(0);
+    });
+
+    it('should apply a lump sum with the payment in the month of its date', () => {
+      const result = calculateMortgageAmortization({
+        ...loan,
+        prepayments: [{ type: 'lumpSum', amount: 5000, date: new Date(2026, 5, 15) }],
+      });
+
+      expect(result.findIndex(r => r.extraPrincipal > 0)).toBe(16); // June 2026 is payment 17
+    });
+
+    it('should apply recurring extras only between start and end months, growing yearly', () => {
+      const result = calculateMortgageAmortization({
+        ...loan,
+        prepayments: [{ type: 'recurring', amount: 100, startMonth: 13, endMonth: 36, growthRate: 10 }],
+      });
+
+      expect(result[11].extraPrincipal).toBe(0);
+      expect(result[12].extraPrincipal).toBeCloseTo(100, 6);
+      expect(result[24].extraPrincipal).toBeCloseTo(110, 6);
+      expect(result[36].extraPrincipal).toBe(0);
+    });
+
+    it('should apply annual extras in the chosen calendar month', () => {
+      const result = calculateMortgageAmortization({
+        ...loan,
+        prepayments: [{ type: 'annual', amount: 2000, calendarMonth: 3, growthRate: 5 }],
+      });
+
+      const withExtra = result.filter(r => r.extraPrincipal > 0);
+      expect(withExtra[0].month).toBe(2); // March 2025
+      expect(withExtra[1].month).toBe(14);
+      expect(withExtra[1].extraPrincipal).toBeCloseTo(2100, 6);
+    });
+
+    it('should report interest and months saved for each prepayment', () => {
+      const result = calculatePrepaymentSavings({
+        ...loan,
+        prepayments: [
+          { type: 'lumpSum', amount: 20000, month: 1 },
+          { type: 'recurring', amount: 200, startMonth: 1 },
+        ],
+      });
+
+      expect(result.baseline.months).toBe(360);
+      expect(result.monthsSaved).toBeGreaterThan(0);
+      expect(result.prepayments).toHaveLength(2);
+      result.prepayments.forEach(p => {
+        expect(p.interestSaved).toBeGreaterThan(0);
+        expect(p.monthsSaved).toBeGreaterThan(0);
+        expect(p.interestSaved).toBeLessThan(result.interestSaved);
+      });
+    });
+
+    it('should reject negative prepayment amounts', () => {
+      expect(() => calculateMortgageAmortization({
+        ...loan,
+        prepayments: [{ type: 'lumpSum', amount: -1, month: 1 }],
+      })).toThrow();
+    });
+  });
+  describe('Payment frequencies', () => {
+    const loan = {
+      loanAmount: 200000,
+      annualRate: 6,
+      termYears: 30,
+      startDate: new Date(2025, 0, 1),
+    };
+    const totalInterest = (rows: { interest: number }[]) => rows.reduce((sum, r) => sum + r.interest, 0);
+
+    it('should accrue biweekly interest per period and pay off over the full term', () => {
+      const result = calculateMortgageAmortization({ ...loan, paymentFrequency: 'biweekly' });
+
+      expect(result.length).toBe(780); // 30 years * 26
+      expect(result[0].interest).toBeCloseTo(200000 * 0.06 / 26, 6);
+      expect(result.at(-1)!.balance).toBeCloseTo(0, 2);
+      expect(result.at(-1)!.year).toBe(30);
+    });
+
+    it('should pay accelerated biweekly as half the monthly payment and finish early', () => {
+      const monthly = calculateMortgageAmortization(loan);
+      const accelerated = calculateMortgageAmortization({ ...loan, paymentFrequency: 'acceleratedBiweekly' });
+
+      expect(accelerated[0].payment).toBeCloseTo(monthly[0].payment / 2, 6);
+      expect(accelerated.at(-1)!.year).toBeLessThan(30);
+      expect(totalInterest(accelerated)).toBeLessThan(totalInterest(monthly));
+    });
+
+    it('should date semi-monthly payments on the 1st and 15th', () => {
+      const result = calculateMortgageAmortization({ ...loan, paymentFrequency: 'semiMonthly' });
+
+      expect(result.length).toBe(720);
+      expect(result[0].date).toBe('2025-02-01');
+      expect(result[1].date).toBe('2025-02-15');
+      expect(result[1].month).toBe(1);
+      expect(result[2].month).toBe(2);
+    });
+
+    it('should date weekly payments every 7 days', () => {
+      const result = calculateMortgageAmortization({ ...loan, paymentFrequency: 'weekly' });
+
+      expect(result[0].date).toBe('2025-01-08');
+      expect(result[1].date).toBe('2025-01-15');
+      expect(result.filter(r => r.year === 1)).toHaveLength(52);
+    });
+
+    it('should roll every frequency up into comparable loan years', () => {
+      const monthlyYears = groupByYear(calculateMortgageAmortization(loan));
+      const weeklyYears = groupByYear(calculateMortgageAmortization({ ...loan, paymentFrequency: 'weekly' }));
+
+      expect(weeklyYears).toHaveLength(monthlyYears.length);
+      expect(weeklyYears[0].year).toBe(1);
+      expect(weeklyYears[0].month).toBe(12);
+      expect(weeklyYears[0].payment).toBeCloseTo(monthlyYears[0].payment, -2);
+    });
+  });
+  describe('PMI and escrow', () => {
+    const loan = {
+      loanAmount: 180000,
+      annualRate: 6,
+      termYears: 30,
+      startDate: new Date(2025, 0, 1),
+      homeValue: 200000,
+      pmiRate: 0.6,
+    };
+
+    it('should charge PMI on the original loan amount until 78% LTV', () => {
+      const result = calculateMortgageAmortization(loan);
+      const endMonth = findPmiEndMonth(result)!;
+
+      expect(result[0].pmi).toBeCloseTo(180000 * 0.006 / 12, 6);
+      expect(endMonth).toBeGreaterThan(1);
+      expect(result[endMonth - 2].balance / 200000).toBeLessThanOrEqual(0.78);
+      expect(result[endMonth - 3].balance / 200000).toBeGreaterThan(0.78);
+      expect(result[endMonth - 1].pmi).toBe(0);
+      expect(result.slice(endMonth - 1).every(r => r.pmi === 0)).toBe(true);
+    });
+
+    it('should end PMI earlier when removal is requested at 80% LTV', () => {
+      const automatic = findPmiEndMonth(calculateMortgageAmortization(loan))!;
+      const requested = findPmiEndMonth(calculateMortgageAmortization({ ...loan, requestPmiRemovalAt80: true }))!;
+
+      expect(requested).toBeLessThan(automatic);
+    });
+
+    it('should end PMI automatically on the original schedule but on request at the actual balance', () => {
+      // 30,000 in month 12 takes the balance below 80% of the home value
+      const prepaid = { ...loan, prepayments: [{ type: 'lumpSum' as const, amount: 30000, month: 12 }] };
+      const automatic = findPmiEndMonth(calculateMortgageAmortization(loan))!;
+
+      expect(findPmiEndMonth(calculateMortgageAmortization(prepaid))).toBe(automatic);
+      expect(findPmiEndMonth(calculateMortgageAmortization({ ...prepaid, requestPmiRemovalAt80: true }))).toBe(13);
+    });
+
+    it('should report the current LTV on each row', () => {
+      const result = calculateMortgageAmortization(loan);
+
+      expect(result[0].ltv).toBeCloseTo(result[0].balance / 2000, 6);
+      const { homeValue, pmiRate, ...withoutHomeValue } = loan;
+      expect(calculateMortgageAmortization(withoutHomeValue)[0].ltv).toBeUndefined();
+    });
+
+    it('should grow escrowed costs each loan year and include them in the total payment', () => {
+      const result = calculateMortgageAmortization({
+        ...loan,
+        escrow: {
+          annualPropertyTax: 2400,
+          propertyTaxIncreaseRate: 10,
+          annualInsurance: 1200,
+          monthlyHoaFee: 50,
+        },
+      });
+
+      expect(result[0].escrow).toBeCloseTo(200 + 100 + 50, 6);
+      expect(result[12].escrow).toBeCloseTo(220 + 100 + 50, 6);
+      expect(result[0].totalPayment).toBeCloseTo(result[0].payment + result[0].pmi + result[0].escrow, 6);
+      expect(groupByYear(result)[0].escrow).toBeCloseTo(350 * 12, 6);
+    });
+
+    it('should throw if PMI is requested without a home value', () => {
+      const { homeValue, ...withoutHomeValue } = loan;
+      expect(() => calculateMortgageAmortization(withoutHomeValue)).toThrow();
+    });
+  });
+  describe('Loan structures', () => {
+    const loan = {
+      loanAmount: 200000,
+      annualRate: 6,
+      termYears: 30,
+      startDate: new Date(2025, 0, 1),
+    };
+
+    it('should pay interest only, then amortize over the remaining term', () => {
+      const result = calculateMortgageAmortization({ ...loan, loanStructure: { interestOnlyMonths: 120 } });
+
+      expect(result[0].isInterestOnly).toBe(true);
+      expect(result[0].principal).toBe(0);
+      expect(result[119].balance).toBeCloseTo(200000, 6);
+      expect(result[120].isInterestOnly).toBeUndefined();
+      expect(result[120].paymentChanged).toBe(true);
+      expect(result[120].payment).toBeGreaterThan(result[0].payment);
+      expect(result).toHaveLength(360);
+      expect(result.at(-1)!.balance).toBeCloseTo(0, 2);
+    });
+
+    it('should flag the balloon payment and end the loan in the balloon month', () => {
+      const result = calculateMortgageAmortization({ ...loan, loanStructure: { balloonMonth: 84 } });
+      const balloon = result.at(-1)!;
+
+      expect(result).toHaveLength(84);
+      expect(balloon.isBalloonPayment).toBe(true);
+      expect(balloon.principal).toBeCloseTo(result[82].balance, 6);
+      expect(balloon.balance).toBe(0);
+      expect(result.filter(r => r.isBalloonPayment)).toHaveLength(1);
+    });
+
+    it('should re-amortize the payment over the remaining term after a recast', () => {
+      const result = calculateMortgageAmortization({
+        ...loan,
+        loanStructure: { recasts: [{ month: 24, lumpSum: 50000 }] },
+      });
+
+      expect(result[23].extraPrincipal).toBe(50000);
+      expect(result[24].paymentChanged).toBe(true);
+      expect(result[24].payment).toBeLessThan(result[22].payment);
+      expect(result).toHaveLength(360);
+      expect(result.filter(r => r.paymentChanged)).toHaveLength(1);
+    });
+
+    it('should flag payment changes at ARM resets', () => {
+      const result = calculateMortgageAmortization({
+        ...loan,
+        adjustableRate: {
+          initialFixedMonths: 60,
+          adjustmentFrequencyMonths: 12,
+          index: 5,
+          margin: 2.75,
+          initialAdjustmentCap: 2,
+          periodicAdjustmentCap: 1,
+          lifetimeCap: 5,
+        },
+      });
+
+      expect(result[60].paymentChanged).toBe(true);
+      expect(result[59].paymentChanged).toBeUndefined();
+    });
+
+    it('should reject a balloon month beyond the term', () => {
+      expect(() => calculateMortgageAmortization({ ...loan, loanStructure: { balloonMonth: 400 } })).toThrow();
+    });
+  });
+  describe('Payment dates', () => {
+    const loan = {
+      loanAmount: 100000,
+      annualRate: 5,
+      termYears: 15,
+      startDate: '2025-01-20',
+    };
+
+    it('should produce ISO dates from an ISO start date', () => {
+      const result = calculateMortgageAmortization(loan);
+
+      expect(result[0].date).toBe('2025-02-01');
+      expect(result[11].date).toBe('2026-01-01');
+      expect(result[0].formattedDate).toBeUndefined();
+    });
+
+    it('should start from the first payment date and keep its day of month', () => {
+      const result = calculateMortgageAmortization({ ...loan, firstPaymentDate: '2025-03-31' });
+
+      expect(result[0].date).toBe('2025-03-31');
+      expect(result[1].date).toBe('2025-04-30');
+      expect(result[11].date).toBe('2026-02-28');
+    });
+
+    it('should pay semi-monthly on the first payment day and 14 days later', () => {
+      const result = calculateMortgageAmortization({ ...loan, firstPaymentDate: '2025-03-10', paymentFrequency: 'semiMonthly' });
+
+      expect(result.slice(0, 4).map(r => r.date)).toEqual(['2025-03-10', '2025-03-24', '2025-04-10', '2025-04-24']);
+    });
+
+    it('should pay semi-monthly on the 6th and 20th when the first payment falls on the 20th', () => {
+      const result = calculateMortgageAmortization({ ...loan, firstPaymentDate: '2025-03-20', paymentFrequency: 'semiMonthly' });
+
+      expect(result.slice(0, 4).map(r => r.date)).toEqual(['2025-03-20', '2025-04-06', '2025-04-20', '2025-05-06']);
+    });
+
+    it('should format dates only through an opt-in formatter', () => {
+      const result = calculateMortgageAmortization({
+        ...loan,
+        dateFormatter: (date) => `${date.getMonth() + 1}/${date.getDate()}/${date.getFullYear()}`,
+      });
+
+      expect(result[0].date).toBe('2025-02-01');
+      expect(result[0].formattedDate).toBe('2/1/2025');
+    });
+
+    it('should group by calendar year as well as loan year', () => {
+      const rows = calculateMortgageAmortization({ ...loan, firstPaymentDate: '2025-07-01' });
+      const loanYears = groupByYear(rows);
+      const calendarYears = groupByYear(rows, 'calendarYear');
+
+      expect(loanYears[0].year).toBe(1);
+      expect(loanYears[0].date).toBe('2026-06-01');
+      expect(calendarYears[0].year).toBe(2025);
+      expect(calendarYears[0].date).toBe('2025-12-01');
+      expect(calendarYears).toHaveLength(16);
+      expect(calendarYears.reduce((sum, y) => sum + y.principal, 0)).toBeCloseTo(100000, 2);
+    });
+
+    it('should reject a first payment date before the start date', () => {
+      expect(() => calculateMortgageAmortization({ ...loan, firstPaymentDate: '2025-01-01' })).toThrow();
+      expect(() => calculateMortgageAmortization({ ...loan, startDate: '2025-02-30' })).toThrow();
+    });
+
+    it('should leave rows undated without a start or first payment date', () => {
+      const { startDate, ...undated } = loan;
+      const rows = calculateMortgageAmortization(undated);
+
+      expect(rows[0].date).toBeUndefined();
+      expect(rows[0].period).toBe(1);
+      expect(() => groupByYear(rows, 'calendarYear')).toThrow();
+      expect(groupByYear(rows)[0].date).toBeUndefined();
+    });
+
+    it('should reject dated features without a start or first payment date', () => {
+      const { startDate, ...undated } = loan;
+
+      expect(() => calculateMortgageAmortization({ ...undated, dateFormatter: (date) => date.toISOString() })).toThrow();
+      expect(() => calculateMortgageAmortization({ ...undated, prepayments: [{ type: 'annual', amount: 1000, calendarMonth: 6 }] })).toThrow();
+      expect(() => calculateMortgageAmortization({ ...undated, prepayments: [{ type: 'lumpSum', amount: 1000, date: '2026-01-01' }] })).toThrow();
+      expect(calculateMortgageAmortization({ ...undated, firstPaymentDate: '2025-03-01' })[0].date).toBe('2025-03-01');
+    });
+  });
 });
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { calculateRefinanceComparison } from '../src/mortgage/refinance';
+
+describe('Refinance Comparison', () => {
+  const existingLoan = {
+    loanAmount: 300000,
+    annualRate: 7,
+    termYears: 30,
+    startDate: new Date(2023, 0, 1),
+  };
+
+  describe('Normal cases', () => {
+    it('should report monthly savings and a break-even month for a lower-rate offer', () => {
+      const [result] = calculateRefinanceComparison({
+        existingLoan,
+        paymentsMade: 24,
+        discountRate: 4,
+        offers: [{ annualRate: 5.5, termYears: 30, closingCosts: 4000 }],
+      });
+
+      expect(result!.currentBalance).toBeLessThan(300000);
+      expect(result!.newLoanAmount).toBeCloseTo(result!.currentBalance, 6);
+      expect(result!.monthlySavings).toBeGreaterThan(0);
+      expect(result!.breakEvenMonth).toBeGreaterThan(0);
+      expect(result!.breakEvenMonth).toBeLessThan(4000 / result!.monthlySavings + 1);
+      expect(result!.netPresentValue).toBeGreaterThan(0);
+    });
+
+    it('should charge points on the refinanced balance and roll costs into the loan', () => {
+      const [paid, rolled] = calculateRefinanceComparison({
+        existingLoan,
+        paymentsMade: 24,
+        discountRate: 4,
+        offers: [
+          { annualRate: 5.5, termYears: 30, points: 1, closingCosts: 3000 },
+          { annualRate: 5.5, termYears: 30, points: 1, closingCosts: 3000, rollCostsIntoLoan: true },
+        ],
+      });
+
+      expect(paid!.totalCosts).toBeCloseTo(paid!.currentBalance * 0.01 + 3000, 6);
+      expect(paid!.upfrontCosts).toBeCloseTo(paid!.totalCosts, 6);
+      expect(rolled!.upfrontCosts).toBe(0);
+      expect(rolled!.newLoanAmount).toBeCloseTo(rolled!.currentBalance + rolled!.totalCosts, 6);
+      expect(rolled!.newPayment).toBeGreaterThan(paid!.newPayment);
+    });
+
+    it('should compare lifetime interest for a shorter term', () => {
+      const [result] = calculateRefinanceComparison({
+        existingLoan,
+        paymentsMade: 60,
+        discountRate: 4,
+        offers: [{ annualRate: 5, termYears: 15, closingCosts: 3000 }],
+      });
+
+      expect(result!.monthlySavings).toBeLessThan(0); // higher payment
+      expect(result!.lifetimeInterestDifference).toBeGreaterThan(0);
+      expect(result!.remainingInterestCurrent).toBeGreaterThan(result!.totalInterestNew);
+    });
+
+    it('should not break even when the new rate is higher', () => {
+      const [result] = calculateRefinanceComparison({
+        existingLoan,
+        paymentsMade: 24,
+        discountRate: 4,
+        offers: [{ annualRate: 8, termYears: 28, closingCosts: 3000 }],
+      });
+
+      expect(result!.breakEvenMonth).toBeNull();
+      expect(result!.netPresentValue).toBeLessThan(0);
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('throws if there are no offers', () => {
+      expect(() => calculateRefinanceComparison({ existingLoan, paymentsMade: 12, discountRate: 4, offers: [] })).toThrow();
+    });
+
+    it('throws if the existing loan is already paid off', () => {
+      expect(() => calculateRefinanceComparison({
+        existingLoan,
+        paymentsMade: 360,
+        discountRate: 4,
+        offers: [{ annualRate: 5, termYears: 30 }],
+      })).toThrow();
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { calculateRentVsBuyProjection } from '../src/real-estate/rentVsBuy';
+
+describe('Rent vs Buy Projection', () => {
+  const input = {
+    startYear: 2025,
+    yearsToCompare: 30,
+    homePrice: 400_000,
+    downPayment: 80_000,
+    buyingClosingCosts: 8_000,
+    annualRate: 6.5,
+    termYears: 30,
+    annualPropertyTax: 4_800,
+    propertyTaxIncreaseRate: 2,
+    annualInsurance: 1_800,
+    insuranceIncreaseRate: 3,
+    monthlyHoaFee: 0,
+    hoaFeeIncreaseRate: 0,
+    maintenanceRate: 1,
+    appreciationRate: 3,
+    sellingCostRate: 6,
+    monthlyRent: 2_200,
+    rentIncreaseRate: 3,
+    investmentReturn: 6,
+  };
+
+  describe('Normal cases', () => {
+    it('should project one row per year', () => {
+      const { rows } = calculateRentVsBuyProjection(input);
+
+      expect(rows).toHaveLength(30);
+      expect(rows[0]!.year).toBe(2025);
+      expect(rows.at(-1)!.year).toBe(2054);
+    });
+
+    it('should start the renter with the down payment and closing costs invested', () => {
+      const { rows } = calculateRentVsBuyProjection(input);
+      const first = rows[0]!;
+
+      // Owner costs more in year 1, so the renter also invests the difference
+      expect(first.ownerAnnualCost).toBeGreaterThan(first.renterAnnualCost);
+      expect(first.renterInvestments)
+        .toBeCloseTo(88_000 * 1.06 + first.ownerAnnualCost - first.renterAnnualCost, -1);
+      expect(first.ownerInvestments).toBe(0);
+    });
+
+    it('should net selling costs and the mortgage balance out of home equity', () => {
+      const { rows } = calculateRentVsBuyProjection(input);
+      const first = rows[0]!;
+
+      expect(first.homeValue).toBe(412_000);
+      expect(first.homeEquityAfterSale).toBeCloseTo(412_000 * 0.94 - first.mortgageBalance, -1);
+      expect(first.ownerNetWorth).toBeLessThan(first.renterNetWorth);
+    });
+
+    it('should report the crossover year when owning pulls ahead', () => {
+      const { rows, crossoverYear } = calculateRentVsBuyProjection(input);
+
+      expect(crossoverYear).not.toBeNull();
+      const crossover = rows.find(r => r.year === crossoverYear)!;
+      expect(crossover.ownerNetWorth).toBeGreaterThanOrEqual(crossover.renterNetWorth);
+      rows.filter(r => r.year < crossoverYear!).forEach(r => {
+        expect(r.ownerNetWorth).toBeLessThan(r.renterNetWorth);
+      });
+      expect(rows.at(-1)!.mortgageBalance).toBe(0);
+    });
+
+    it('should never cross over when renting is cheap and returns are high', () => {
+      const { crossoverYear } = calculateRentVsBuyProjection({
+        ...input,
+        yearsToCompare: 10,
+        monthlyRent: 1_000,
+        appreciationRate: 0,
+        investmentReturn: 10,
+      });
+
+      expect(crossoverYear).toBeNull();
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('should handle buying with cash', () => {
+      const { rows } = calculateRentVsBuyProjection({ ...input, downPayment: 400_000 });
+
+      expect(rows.every(r => r.mortgageBalance === 0)).toBe(true);
+    });
+
+    it('throws if the down payment exceeds the home price', () => {
+      expect(() => calculateRentVsBuyProjection({ ...input, downPayment: 500_000 })).toThrow();
+    });
+  });
+});
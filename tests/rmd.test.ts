@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateRequiredMinimumDistribution,
+  calculateRmdDivisor,
+  getRmdStartAge,
+} from '../src/retirement/rmd';
+import { APPROXIMATE_JOINT_LIFE_PERIODS } from '../src/retirement/jointLifeTable';
+import { calculateRetirementSavingsProjectionWithOverrides } from '../src/retirement/savings';
+
+describe('Required Minimum Distributions', () => {
+  const savings = {
+    startYear: 2025,
+    birthYear: 1953,
+    initialBalance: 1_000_000,
+    initialContribution: 0,
+    estimatedYield: 5,
+    estimatedWithdrawRate: 2,
+    contributionIncreaseRate: 0,
+    withdrawStartAge: 65,
+    lifeExpectancyAge: 95,
+    applyRequiredMinimumDistributions: true,
+  };
+
+  describe('Normal cases', () => {
+    it('should use SECURE 2.0 start ages', () => {
+      expect(getRmdStartAge(1950)).toBe(72);
+      expect(getRmdStartAge(1951)).toBe(73);
+      expect(getRmdStartAge(1959)).toBe(73);
+      expect(getRmdStartAge(1960)).toBe(75);
+    });
+
+    it('should divide the prior year-end balance by the Uniform Lifetime Table period', () => {
+      expect(calculateRmdDivisor(73)).toBe(26.5);
+      expect(calculateRmdDivisor(90)).toBe(12.2);
+      expect(calculateRequiredMinimumDistribution(265_000, 73, 1952)).toBeCloseTo(10_000, 6);
+      expect(calculateRequiredMinimumDistribution(265_000, 73, 1960)).toBe(0);
+    });
+
+    it('should use the approximate joint life period when the spouse is more than 10 years younger', () => {
+      expect(calculateRmdDivisor(75, 65)).toBe(24.6);
+      expect(calculateRmdDivisor(75, 60)).toBe(APPROXIMATE_JOINT_LIFE_PERIODS[75]![40]);
+      expect(calculateRmdDivisor(75, 10)).toBe(calculateRmdDivisor(75, 20));
+    });
+
+    it('should keep the approximate periods above the Uniform period and falling with the spouse\'s age', () => {
+      Object.entries(APPROXIMATE_JOINT_LIFE_PERIODS).forEach(([key, periods]) => {
+        const ownerAge = Number(key);
+        expect(periods).toHaveLength(ownerAge - 11 - 19);
+        periods.forEach((period, i) => {
+          expect(period).toBeGreaterThanOrEqual(calculateRmdDivisor(ownerAge) - 0.1);
+          if (i > 0) expect(period).toBeLessThanOrEqual(periods[i - 1]!);
+        });
+      });
+    });
+
+    it('should withdraw the RMD when it exceeds the planned withdrawal', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides(savings);
+      const at73 = rows.find(r => r.age === 73)!;
+      const at72 = rows.find(r => r.age === 72)!;
+
+      expect(at72.requiredMinimumDistribution).toBe(0);
+      expect(at72.withdrawRate).toBe(2);
+      expect(at73.requiredMinimumDistribution).toBeCloseTo(at73.beginningBalance / 26.5, 6);
+      expect(at73.annualWithdraw).toBe(at73.requiredMinimumDistribution);
+      expect(at73.withdrawRate).toBeCloseTo(100 / 26.5, 2);
+    });
+
+    it('should report the RMD top-up and keep strategies on their own planned amount', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...savings,
+        withdrawalStrategy: { type: 'fixedReal', inflationRate: 0 },
+      });
+      const at72 = rows.find(r => r.age === 72)!;
+      const at73 = rows.find(r => r.age === 73)!;
+      const at74 = rows.find(r => r.age === 74)!;
+
+      expect(at72.requiredMinimumDistributionTopUp).toBe(0);
+      expect(at73.requiredMinimumDistributionTopUp).toBeCloseTo(at73.requiredMinimumDistribution - at72.annualWithdraw, 6);
+      expect(at74.annualWithdraw - at74.requiredMinimumDistributionTopUp).toBeCloseTo(at72.annualWithdraw, 6);
+    });
+
+    it('should keep the planned withdrawal when it exceeds the RMD', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({ ...savings, estimatedWithdrawRate: 6 });
+      const at73 = rows.find(r => r.age === 73)!;
+
+      expect(at73.requiredMinimumDistribution).toBeGreaterThan(0);
+      expect(at73.annualWithdraw).toBeCloseTo(at73.beginningBalance * 0.06, 6);
+    });
+
+    it('should reduce RMDs for a much younger spouse', () => {
+      const single = calculateRetirementSavingsProjectionWithOverrides(savings);
+      const married = calculateRetirementSavingsProjectionWithOverrides({ ...savings, spouseBirthYear: 1970 });
+      const year = 2026;
+
+      const singleRow = single.find(r => r.year === year)!;
+      const marriedRow = married.find(r => r.year === year)!;
+      expect(marriedRow.requiredMinimumDistribution).toBeLessThan(singleRow.requiredMinimumDistribution);
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('should not apply RMDs unless requested', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({ ...savings, applyRequiredMinimumDistributions: false });
+
+      rows.forEach(r => expect(r.requiredMinimumDistribution).toBe(0));
+      expect(rows.find(r => r.age === 80)!.withdrawRate).toBe(2);
+    });
+
+    it('should force distributions even before withdrawals start', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({ ...savings, withdrawStartAge: 80 });
+      const at75 = rows.find(r => r.age === 75)!;
+
+      expect(at75.annualWithdraw).toBeCloseTo(at75.beginningBalance / 24.6, 6);
+    });
+
+    it('should cap the table at age 120', () => {
+      expect(calculateRmdDivisor(125)).toBe(2.0);
+    });
+  });
+});
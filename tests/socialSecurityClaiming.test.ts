@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateClaimingDetails,
+  calculateSocialSecurityBenefitProjectionWithBreakdown,
+} from '../src/socialSecurity/benefit';
+
+const baseInput = {
+  startYear: 2025,
+  birthYear: 1960,
+  claimingAge: 67,
+  averageIncome: 60_000,
+  averageCOLA: 0,
+  lifeExpectancyAge: 90,
+};
+
+describe('Social Security Month-Precise Claiming', () => {
+  describe('Normal cases', () => {
+    it('reduces by 5/9 of 1% for 36 months and 5/12 of 1% beyond', () => {
+      const atSixtyTwo = calculateClaimingDetails({ ...baseInput, claimingAge: 62 });
+      expect(atSixtyTwo.monthsEarly).toBe(60);
+      expect(atSixtyTwo.adjustmentFactor).toBeCloseTo(0.7, 10);
+
+      const midway = calculateClaimingDetails({ ...baseInput, claimingAge: 64, claimingAgeMonths: 6 });
+      expect(midway.monthsEarly).toBe(30);
+      expect(midway.adjustmentFactor).toBeCloseTo(1 - 30 * (5 / 900), 10);
+    });
+
+    it('adds 2/3 of 1% per month of delay up to 70', () => {
+      const atSeventy = calculateClaimingDetails({ ...baseInput, claimingAge: 70 });
+      expect(atSeventy.monthsDelayed).toBe(36);
+      expect(atSeventy.adjustmentFactor).toBeCloseTo(1.24, 10);
+
+      const pastSeventy = calculateClaimingDetails({ ...baseInput, claimingAge: 72 });
+      expect(pastSeventy.adjustmentFactor).toBeCloseTo(1.24, 10);
+    });
+
+    it('uses the month-based full retirement age', () => {
+      const details = calculateClaimingDetails({ ...baseInput, birthYear: 1955, claimingAge: 66 });
+      expect(details.fullRetirementAgeMonths).toBe(66 * 12 + 2);
+      expect(details.monthsEarly).toBe(2);
+    });
+
+    it('prorates the first year by months received', () => {
+      const { rows, claiming } = calculateSocialSecurityBenefitProjectionWithBreakdown({
+        ...baseInput,
+        birthMonth: 6,
+        claimingAgeMonths: 3,
+      });
+
+      expect(claiming).toMatchObject({ year: 2027, month: 9 });
+      const firstYear = rows.find((r) => r.year === 2027)!;
+      const secondYear = rows.find((r) => r.year === 2028)!;
+      expect(firstYear.monthsReceived).toBe(4);
+      expect(secondYear.monthsReceived).toBe(12);
+      expect(firstYear.annualBenefit).toBeCloseTo(secondYear.annualBenefit / 3, -1);
+      expect(rows.find((r) => r.year === 2026)!.annualBenefit).toBe(0);
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('treats a birthday on the 1st as the previous month', () => {
+      expect(calculateClaimingDetails({ ...baseInput, birthMonth: 3, birthDay: 1 })).toMatchObject({ year: 2027, month: 2 });
+      expect(calculateClaimingDetails({ ...baseInput, birthMonth: 3, birthDay: 15 })).toMatchObject({ year: 2027, month: 3 });
+    });
+
+    it('uses the previous birth year for a January 1st birthday', () => {
+      const details = calculateClaimingDetails({ ...baseInput, birthMonth: 1, birthDay: 1 });
+      // Treated as born in December 1959, with a full retirement age of 66 and 10 months
+      expect(details.fullRetirementAgeMonths).toBe(66 * 12 + 10);
+      expect(details).toMatchObject({ year: 2026, month: 12, monthsDelayed: 2 });
+    });
+
+    it('starts at 62 in the month after the birthday unless born on the 1st or 2nd', () => {
+      const third = calculateClaimingDetails({ ...baseInput, birthMonth: 5, birthDay: 3, claimingAge: 62 });
+      expect(third).toMatchObject({ year: 2022, month: 6, monthsEarly: 59 });
+
+      const second = calculateClaimingDetails({ ...baseInput, birthMonth: 5, birthDay: 2, claimingAge: 62 });
+      expect(second).toMatchObject({ year: 2022, month: 5, monthsEarly: 60 });
+
+      const first = calculateClaimingDetails({ ...baseInput, birthMonth: 5, birthDay: 1, claimingAge: 62 });
+      expect(first).toMatchObject({ year: 2022, month: 5, monthsEarly: 59 });
+    });
+
+    it('rejects claiming months outside 0-11', () => {
+      expect(() =>
+        calculateSocialSecurityBenefitProjectionWithBreakdown({ ...baseInput, claimingAgeMonths: 12 })
+      ).toThrow("Social Security Benefits input validation failed");
+    });
+  });
+});
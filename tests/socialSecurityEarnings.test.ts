@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculatePrimaryInsuranceAmount,
+  calculateSocialSecurityBenefitProjection,
+  calculateSocialSecurityBenefitProjectionWithBreakdown,
+  type EarningsRecordEntry,
+} from '../src/socialSecurity/benefit';
+import { AVERAGE_WAGE_INDEX, getBendPoints, getTaxableMaximum } from '../src/socialSecurity/parameters';
+
+// Earns exactly the national average wage every year from 1982 to 2016
+const averageWageRecord: EarningsRecordEntry[] = Array.from({ length: 35 }, (_, i) => ({
+  year: 1982 + i,
+  earnings: AVERAGE_WAGE_INDEX[1982 + i]!,
+}));
+
+const baseInput = {
+  startYear: 2025,
+  birthYear: 1960,
+  claimingAge: 67,
+  averageCOLA: 0,
+  lifeExpectancyAge: 85,
+};
+
+describe('Social Security Earnings Record PIA', () => {
+  describe('Normal cases', () => {
+    it('derives bend points from the AWI two years before eligibility', () => {
+      expect(getBendPoints(2022)).toEqual([1024, 6172]);
+      expect(getBendPoints(2025)).toEqual([1226, 7391]);
+    });
+
+    it('indexes earnings to age 60 and computes AIME and PIA', () => {
+      const result = calculatePrimaryInsuranceAmount(averageWageRecord, 1960);
+
+      expect(result.indexingYear).toBe(2020);
+      expect(result.eligibilityYear).toBe(2022);
+      result.indexedEarnings.forEach((row) => expect(row.indexedEarnings).toBeCloseTo(55628.6, 6));
+      expect(result.aime).toBe(4635);
+      expect(result.bendPoints).toEqual([1024, 6172]);
+      // 90% of 1024 + 32% of (4635 - 1024), truncated to the dime
+      expect(result.pia).toBe(2077.1);
+    });
+
+    it('caps each year at its taxable maximum', () => {
+      const result = calculatePrimaryInsuranceAmount([{ year: 2024, earnings: 1_000_000 }], 1960);
+      expect(result.indexedEarnings[0]!.cappedEarnings).toBe(168600);
+      expect(result.indexedEarnings[0]!.indexFactor).toBe(1);
+      expect(result.aime).toBe(Math.floor(168600 / 420));
+    });
+
+    it('uses only the highest 35 years', () => {
+      const record = [...averageWageRecord, { year: 1981, earnings: 1000 }];
+      const result = calculatePrimaryInsuranceAmount(record, 1960);
+
+      expect(result.indexedEarnings.filter((row) => row.isTopYear)).toHaveLength(35);
+      expect(result.indexedEarnings.find((row) => row.year === 1981)!.isTopYear).toBe(false);
+      expect(result.aime).toBe(4635);
+    });
+
+    it('projects benefits from the record-based PIA', () => {
+      const { rows, breakdown } = calculateSocialSecurityBenefitProjectionWithBreakdown({
+        ...baseInput,
+        earningsRecord: averageWageRecord,
+      });
+
+      // Published 2022-2024 COLAs, then averageCOLA
+      const piaAtClaiming = 2077.1 * 1.087 * 1.032 * 1.025;
+      expect(breakdown.piaAtClaiming).toBeCloseTo(piaAtClaiming, 6);
+      expect(rows.find((r) => r.year === 2027)!.annualBenefit).toBe(Math.round(piaAtClaiming * 12));
+      expect(rows.find((r) => r.year === 2026)!.annualBenefit).toBe(0);
+    });
+
+    it('applies COLAs from the eligibility year until claiming', () => {
+      const { breakdown } = calculateSocialSecurityBenefitProjectionWithBreakdown({
+        ...baseInput,
+        averageCOLA: 2,
+        earningsRecord: averageWageRecord,
+        yearOverrides: { 2022: { colaApplied: 5 } },
+      });
+
+      expect(breakdown.piaAtClaiming).toBeCloseTo(2077.1 * 1.05 * 1.032 * 1.025 * Math.pow(1.02, 2), 6);
+    });
+
+    it('applies the COLAs since claiming for a worker already collecting', () => {
+      // Claimed at 62 in 2022 and collecting since, so the 2022-2024 COLAs are already paid in 2025
+      const colas = 1.087 * 1.032 * 1.025;
+      const fromRecord = calculateSocialSecurityBenefitProjectionWithBreakdown({ ...baseInput, claimingAge: 62, earningsRecord: averageWageRecord });
+      const estimated = calculateSocialSecurityBenefitProjectionWithBreakdown({ ...baseInput, claimingAge: 62, averageIncome: 60_000 });
+
+      expect(fromRecord.claiming.year).toBe(2022);
+      expect(fromRecord.rows[0]!.monthlyBenefit).toBe(Math.round(2077.1 * 0.7 * colas));
+      expect(estimated.rows[0]!.monthlyBenefit).toBe(Math.round(estimated.breakdown.pia * 0.7 * colas));
+    });
+
+    it('keeps the average income estimate when no record is given', () => {
+      const input = { ...baseInput, averageIncome: 60_000 };
+      const { rows, breakdown } = calculateSocialSecurityBenefitProjectionWithBreakdown(input);
+
+      expect(rows).toEqual(calculateSocialSecurityBenefitProjection(input));
+      expect(breakdown.aime).toBe(5000);
+      expect(breakdown.indexedEarnings).toEqual([]);
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('averages fewer than 35 years over the full 420 months', () => {
+      const record = averageWageRecord.slice(-10);
+      const result = calculatePrimaryInsuranceAmount(record, 1960);
+      expect(result.aime).toBe(Math.floor((10 * 55628.6) / 420));
+    });
+
+    it('projects AWI and taxable maximum past the published series', () => {
+      expect(getTaxableMaximum(2030)).toBeGreaterThan(184500);
+      expect(getTaxableMaximum(2030) % 300).toBe(0);
+
+      const result = calculatePrimaryInsuranceAmount([{ year: 2040, earnings: 80_000 }], 1990, 3);
+      expect(result.indexedEarnings[0]!.indexFactor).toBeCloseTo(Math.pow(1.03, 10), 10);
+      expect(result.bendPoints[0]).toBeGreaterThan(1226);
+    });
+
+    it('rejects negative, duplicate or pre-1951 earnings', () => {
+      expect(() =>
+        calculateSocialSecurityBenefitProjectionWithBreakdown({
+          ...baseInput,
+          earningsRecord: [
+            { year: 1950, earnings: 1000 },
+            { year: 2000, earnings: -1 },
+            { year: 2000, earnings: 1000 },
+          ],
+        })
+      ).toThrow("Social Security Benefits input validation failed");
+    });
+
+    it('requires average income or an earnings record', () => {
+      expect(() => calculateSocialSecurityBenefitProjection(baseInput)).toThrow(
+        "Social Security Benefits input validation failed"
+      );
+    });
+  });
+});
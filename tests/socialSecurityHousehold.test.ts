@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import { calculateSocialSecurityBenefitProjection } from '../src/socialSecurity/benefit';
+import {
+  calculateSocialSecurityHouseholdProjection,
+  createSocialSecurityHouseholdProjector,
+  validateSocialSecurityHouseholdInput,
+  type SocialSecurityHouseholdInput,
+} from '../src/socialSecurity/household';
+
+// Higher earner and lower earner, both born in January 1960 with a full retirement age of 67
+const baseInput: SocialSecurityHouseholdInput = {
+  startYear: 2025,
+  averageCOLA: 0,
+  primary: { birthYear: 1960, claimingAge: 67, averageIncome: 150_000, lifeExpectancyAge: 90 },
+  spouse: { birthYear: 1960, claimingAge: 67, averageIncome: 20_000, lifeExpectancyAge: 90 },
+};
+
+const rowFor = (rows: { year: number }[], year: number) => rows.find((r) => r.year === year)!;
+// Eligible in 2022, so the estimated PIA receives the 2022-2024 COLAs before the 2025 start
+const piaIn2025 = (member: { breakdown: { pia: number } }) => member.breakdown.pia * 1.087 * 1.032 * 1.025;
+
+describe('Social Security Household', () => {
+  describe('Normal cases', () => {
+    it('pays the lower earner up to half of the higher earner\'s PIA', () => {
+      const { primary, spouse } = calculateSocialSecurityHouseholdProjection(baseInput);
+      const row = rowFor(spouse.rows, 2027) as (typeof spouse.rows)[number];
+
+      expect(row.benefitType).toBe('spousal');
+      expect(row.retirementBenefit).toBe(Math.round(piaIn2025(spouse) * 12));
+      expect(row.annualBenefit).toBe(Math.round(piaIn2025(primary) / 2 * 12));
+      expect((rowFor(primary.rows, 2027) as (typeof primary.rows)[number]).benefitType).toBe('retirement');
+    });
+
+    it('reduces spousal benefits by 25/36 of 1% and 5/12 of 1% per month early', () => {
+      const { primary, spouse } = calculateSocialSecurityHouseholdProjection({
+        ...baseInput,
+        primary: { ...baseInput.primary, claimingAge: 62 },
+        spouse: { ...baseInput.spouse, claimingAge: 62 },
+      });
+      const row = spouse.rows[0]!;
+
+      // 60 months early: own benefit at 70%, spousal excess at 65%
+      const excess = piaIn2025(primary) / 2 - piaIn2025(spouse);
+      expect(row.retirementBenefit).toBe(Math.round(piaIn2025(spouse) * 0.7 * 12));
+      expect(row.spousalBenefit).toBe(Math.round(excess * 0.65 * 12));
+    });
+
+    it('bases the spousal reduction on age when spousal benefits start', () => {
+      const { primary, spouse } = calculateSocialSecurityHouseholdProjection({
+        ...baseInput,
+        spouse: { ...baseInput.spouse, claimingAge: 62 },
+      });
+
+      // Own benefit from 62, spousal excess only once the higher earner files at 67, unreduced
+      expect(rowFor(spouse.rows, 2026)).toMatchObject({ benefitType: 'retirement', spousalBenefit: 0 });
+      const excess = piaIn2025(primary) / 2 - piaIn2025(spouse);
+      expect(rowFor(spouse.rows, 2027)).toMatchObject({ benefitType: 'spousal', spousalBenefit: Math.round(excess * 12) });
+    });
+
+    it('matches the single-worker projection for the higher earner\'s own benefit', () => {
+      const input = { ...baseInput, averageCOLA: 2 };
+      const { primary } = calculateSocialSecurityHouseholdProjection(input);
+      const single = calculateSocialSecurityBenefitProjection({ ...input.primary, startYear: 2025, averageCOLA: 2 });
+
+      expect(primary.rows.map((r) => r.annualBenefit)).toEqual(single.map((r) => r.annualBenefit));
+    });
+
+    it('switches the survivor to the deceased\'s benefit including delayed credits', () => {
+      const { primary, spouse } = calculateSocialSecurityHouseholdProjection({
+        ...baseInput,
+        primary: { ...baseInput.primary, claimingAge: 70, lifeExpectancyAge: 75 },
+      });
+
+      expect(primary.rows[primary.rows.length - 1]!.year).toBe(2035);
+      const row = rowFor(spouse.rows, 2036) as (typeof spouse.rows)[number];
+      expect(row.benefitType).toBe('survivor');
+      expect(row.annualBenefit).toBe(Math.round(piaIn2025(primary) * 1.24 * 12));
+    });
+
+    it('applies the widow(er) limit after an early claim', () => {
+      const { primary, spouse } = calculateSocialSecurityHouseholdProjection({
+        ...baseInput,
+        primary: { ...baseInput.primary, claimingAge: 62, lifeExpectancyAge: 75 },
+      });
+
+      expect((rowFor(spouse.rows, 2036) as (typeof spouse.rows)[number]).annualBenefit).toBe(
+        Math.round(piaIn2025(primary) * 0.825 * 12)
+      );
+    });
+
+    it('pays a reduced survivor benefit from 60 and switches to the own benefit at 70', () => {
+      const { primary, spouse } = calculateSocialSecurityHouseholdProjection({
+        ...baseInput,
+        primary: { ...baseInput.primary, lifeExpectancyAge: 67 },
+        spouse: { birthYear: 1967, claimingAge: 70, survivorClaimingAge: 60, averageIncome: 80_000, lifeExpectancyAge: 90 },
+      });
+
+      // Widowed at the end of 2027, so paid from January 2028 at 61: 72 months before the survivor full
+      // retirement age of 67
+      expect(rowFor(spouse.rows, 2028)).toMatchObject({
+        benefitType: 'survivor',
+        retirementBenefit: 0,
+        annualBenefit: Math.round(piaIn2025(primary) * (1 - 0.285 * 72 / 84) * 12),
+      });
+      expect(rowFor(spouse.rows, 2038)).toMatchObject({
+        benefitType: 'retirement',
+        survivorBenefit: 0,
+        retirementBenefit: Math.round(spouse.breakdown.pia * 1.24 * 12),
+      });
+    });
+
+    it('starts survivor benefits by the survivor full retirement age when the own claim is later', () => {
+      const { primary, spouse } = calculateSocialSecurityHouseholdProjection({
+        ...baseInput,
+        primary: { ...baseInput.primary, lifeExpectancyAge: 67 },
+        spouse: { birthYear: 1967, claimingAge: 70, averageIncome: 20_000, lifeExpectancyAge: 90 },
+      });
+
+      expect(rowFor(spouse.rows, 2033)).toMatchObject({ annualBenefit: 0 });
+      expect(rowFor(spouse.rows, 2034)).toMatchObject({ benefitType: 'survivor', annualBenefit: Math.round(piaIn2025(primary) * 12) });
+    });
+
+    it('pays divorced spouses after a 10-year marriage', () => {
+      const divorced = { ...baseInput, relationship: 'divorced' as const, marriageLengthYears: 12 };
+      expect(rowFor(calculateSocialSecurityHouseholdProjection(divorced).spouse.rows, 2027)).toMatchObject({ benefitType: 'spousal' });
+
+      const short = { ...divorced, marriageLengthYears: 9 };
+      expect(rowFor(calculateSocialSecurityHouseholdProjection(short).spouse.rows, 2027)).toMatchObject({ benefitType: 'retirement' });
+    });
+
+    it('projects other claiming ages and lifetimes with a reusable projector', () => {
+      const project = createSocialSecurityHouseholdProjector(baseInput);
+      const early = { ...baseInput.primary, claimingAge: 62 };
+      const shortLife = { ...baseInput.spouse, lifeExpectancyAge: 70 };
+
+      expect(project(baseInput.primary, baseInput.spouse)).toEqual(calculateSocialSecurityHouseholdProjection(baseInput));
+      expect(project(early, shortLife)).toEqual(calculateSocialSecurityHouseholdProjection({ ...baseInput, primary: early, spouse: shortLife }));
+      expect(() => project(baseInput.primary, { ...baseInput.spouse, claimingAge: 60 })).toThrow(
+        "Social Security Household input validation failed"
+      );
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('lets a divorced spouse claim before the ex-spouse files once divorced 2 years', () => {
+      const { spouse } = calculateSocialSecurityHouseholdProjection({
+        ...baseInput,
+        relationship: 'divorced',
+        marriageLengthYears: 20,
+        divorceYear: 2015,
+        primary: { ...baseInput.primary, claimingAge: 70 },
+      });
+
+      expect(rowFor(spouse.rows, 2027)).toMatchObject({ benefitType: 'spousal' });
+    });
+
+    it('ends divorced-spouse benefits on remarriage', () => {
+      const { spouse } = calculateSocialSecurityHouseholdProjection({
+        ...baseInput,
+        relationship: 'divorced',
+        marriageLengthYears: 20,
+        spouse: { ...baseInput.spouse, remarried: true },
+      });
+
+      expect(spouse.rows.every((r) => r.spousalBenefit === 0 && r.survivorBenefit === 0)).toBe(true);
+    });
+
+    it('prorates the first year and keeps the higher earner\'s own benefit after the spouse dies', () => {
+      const { primary } = calculateSocialSecurityHouseholdProjection({
+        ...baseInput,
+        primary: { ...baseInput.primary, birthMonth: 7 },
+        spouse: { ...baseInput.spouse, lifeExpectancyAge: 70 },
+      });
+
+      expect(rowFor(primary.rows, 2027)).toMatchObject({ monthsReceived: 6, benefitType: 'retirement' });
+      expect(rowFor(primary.rows, 2031)).toMatchObject({ benefitType: 'retirement', survivorBenefit: 0 });
+    });
+
+    it('reports validation errors by spouse', () => {
+      try {
+        calculateSocialSecurityHouseholdProjection({ ...baseInput, spouse: { ...baseInput.spouse, claimingAge: 60 } });
+        expect.unreachable();
+      } catch (err) {
+        expect((err as Error).message).toBe("Social Security Household input validation failed");
+        expect((err as any).validationErrors).toEqual([
+          { field: 'spouse.claimingAge', message: "Must be at least 62 to claim Social Security benefits" },
+        ]);
+      }
+      expect(validateSocialSecurityHouseholdInput({ ...baseInput, spouse: { ...baseInput.spouse, survivorClaimingAge: 59 } })).toEqual([
+        { field: 'spouse.survivorClaimingAge', message: "Must be at least 60 to claim survivor benefits" },
+      ]);
+      expect(validateSocialSecurityHouseholdInput({ ...baseInput, averageCOLA: -1 })).toEqual([
+        { field: 'averageCOLA', message: "Average COLA cannot be negative" },
+      ]);
+    });
+  });
+});
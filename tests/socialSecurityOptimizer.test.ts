@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBreakEvenAge,
+  optimizeSocialSecurityClaiming,
+  optimizeSocialSecurityHouseholdClaiming,
+} from '../src/socialSecurity/optimizer';
+import { calculateSocialSecurityBenefitProjection } from '../src/socialSecurity/benefit';
+import type { SocialSecurityHouseholdInput } from '../src/socialSecurity/household';
+
+// Turns 62 in January of the start year, so every age from 62 to 70 is still ahead
+const baseInput = {
+  startYear: 2025,
+  birthYear: 1963,
+  claimingAge: 67,
+  averageIncome: 80_000,
+  averageCOLA: 0,
+  lifeExpectancyAge: 85,
+};
+
+const householdInput: SocialSecurityHouseholdInput = {
+  startYear: 2025,
+  averageCOLA: 0,
+  primary: { birthYear: 1963, claimingAge: 67, averageIncome: 150_000, lifeExpectancyAge: 85 },
+  spouse: { birthYear: 1963, claimingAge: 67, averageIncome: 20_000, lifeExpectancyAge: 88 },
+};
+
+describe('Social Security Claiming Optimizer', () => {
+  describe('Normal cases', () => {
+    it('evaluates every month from 62 to 70', () => {
+      const result = optimizeSocialSecurityClaiming(baseInput);
+
+      expect(result.strategies).toHaveLength(97);
+      expect(result.strategies.map((s) => s.rank)).toEqual(Array.from({ length: 97 }, (_, i) => i + 1));
+      expect(result.best).toBe(result.strategies[0]);
+    });
+
+    it('ranks by lifetime benefits for the planned life expectancy', () => {
+      const longLife = optimizeSocialSecurityClaiming({ ...baseInput, lifeExpectancyAge: 95 }, { rankBy: 'lifetimeBenefits' });
+      expect(longLife.best.claimingAge).toEqual({ years: 70, months: 0 });
+
+      const shortLife = optimizeSocialSecurityClaiming({ ...baseInput, lifeExpectancyAge: 68 }, { rankBy: 'lifetimeBenefits' });
+      expect(shortLife.best.claimingAge).toEqual({ years: 62, months: 0 });
+    });
+
+    it('favours claiming early at a high discount rate', () => {
+      const result = optimizeSocialSecurityClaiming(baseInput, { rankBy: 'presentValue', discountRate: 15 });
+      expect(result.best.claimingAge).toEqual({ years: 62, months: 0 });
+    });
+
+    it('weights expected value by the mortality table', () => {
+      const dies = optimizeSocialSecurityClaiming(baseInput, {
+        mortality: { type: 'table', deathProbabilities: { 62: 0, 63: 0, 64: 1 } },
+      });
+      expect(dies.best.claimingAge).toEqual({ years: 62, months: 0 });
+      // Alive at 62 to 64 only: three of the 24 years to 85, discounted at 2%
+      const sixtyTwo = dies.strategies.find((s) => s.claimingAge.years === 62 && s.claimingAge.months === 0)!;
+      const annual = sixtyTwo.lifetimeBenefits / 24;
+      expect(sixtyTwo.expectedValue).toBeCloseTo(annual * (1 + 1 / 1.02 + 1 / 1.02 ** 2), 0);
+    });
+
+    it('does not let averageCOLA change the best age for an estimated PIA', () => {
+      const flat = optimizeSocialSecurityClaiming(baseInput, { monthStep: 3 });
+      const inflated = optimizeSocialSecurityClaiming({ ...baseInput, averageCOLA: 2.5 }, { monthStep: 3 });
+
+      expect(inflated.best.claimingAge).toEqual(flat.best.claimingAge);
+      expect(inflated.best.expectedValue).toBeCloseTo(flat.best.expectedValue, 6);
+      expect(inflated.best.presentValue).toBeCloseTo(flat.best.presentValue, 6);
+      expect(inflated.best.lifetimeBenefits).toBeGreaterThan(flat.best.lifetimeBenefits);
+    });
+
+    it('reports the break-even age against claiming at 62', () => {
+      const result = optimizeSocialSecurityClaiming(baseInput);
+      const seventy = result.strategies.find((s) => s.claimingAge.years === 70)!;
+      const sixtyTwo = result.strategies.find((s) => s.claimingAge.years === 62 && s.claimingAge.months === 0)!;
+
+      // 70% of PIA from 62 against 124% from 70 cross early in the year the worker turns 80
+      expect(seventy.breakEvenAge).toBeCloseTo(80.37, 1);
+      expect(sixtyTwo.breakEvenAge).toBeNull();
+    });
+
+    it('reports the break-even age between any two strategies', () => {
+      const result = optimizeSocialSecurityClaiming(baseInput, { monthStep: 12 });
+      const sixtySix = result.strategies.find((s) => s.claimingAge.years === 66)!;
+      const seventy = result.strategies.find((s) => s.claimingAge.years === 70)!;
+      const rows = (claimingAge: number) => calculateSocialSecurityBenefitProjection({ ...baseInput, claimingAge });
+
+      const breakEven = result.breakEven(sixtySix, seventy)!;
+      expect(breakEven).toBeCloseTo(calculateBreakEvenAge(rows(66), rows(70), baseInput.birthYear)!, 10);
+      expect(breakEven).toBeGreaterThan(seventy.breakEvenAge!);
+      expect(result.breakEven(seventy, sixtySix)).toBeNull();
+    });
+
+    it('optimizes both claiming ages for a couple', () => {
+      const result = optimizeSocialSecurityHouseholdClaiming(householdInput, { monthStep: 12 });
+
+      expect(result.strategies).toHaveLength(81);
+      expect(result.best.spouseClaimingAge).toBeDefined();
+      // The higher earner's delay also raises the survivor benefit
+      expect(result.best.claimingAge.years).toBe(70);
+    });
+
+    it('refines the yearly search for a couple month by month near the best pair by default', () => {
+      const yearly = optimizeSocialSecurityHouseholdClaiming(householdInput, { monthStep: 12 });
+      const monthly = optimizeSocialSecurityHouseholdClaiming(householdInput);
+      const months = (age: { years: number; months: number }) => age.years * 12 + age.months;
+
+      // The yearly pairs, plus every pair of months within a year of the best yearly pair
+      const refined = monthly.strategies.filter((s) => s.claimingAge.months !== 0 || s.spouseClaimingAge!.months !== 0);
+      expect(monthly.strategies.length).toBeGreaterThan(81);
+      expect(monthly.strategies.length).toBeLessThan(81 + 23 * 23);
+      refined.forEach((s) => {
+        expect(Math.abs(months(s.claimingAge) - months(yearly.best.claimingAge))).toBeLessThan(12);
+        expect(Math.abs(months(s.spouseClaimingAge!) - months(yearly.best.spouseClaimingAge!))).toBeLessThan(12);
+      });
+      expect(monthly.best.expectedValue).toBeGreaterThanOrEqual(yearly.best.expectedValue);
+      // Shared survivor projections give each pair the same value as a coarser search
+      const sameAges = monthly.strategies.find(
+        (s) => s.claimingAge.years === yearly.best.claimingAge.years && s.claimingAge.months === 0 &&
+          s.spouseClaimingAge!.years === yearly.best.spouseClaimingAge!.years && s.spouseClaimingAge!.months === 0
+      )!;
+      expect(sameAges.expectedValue).toBeCloseTo(yearly.best.expectedValue, 6);
+      expect(sameAges.lifetimeBenefits).toBe(yearly.best.lifetimeBenefits);
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('matches two single workers when no spousal or survivor benefits apply', () => {
+      const unrelated: SocialSecurityHouseholdInput = { ...householdInput, relationship: 'divorced', marriageLengthYears: 5 };
+      const couple = optimizeSocialSecurityHouseholdClaiming(unrelated, { monthStep: 48 });
+      const primary = optimizeSocialSecurityClaiming({ ...householdInput.primary, startYear: 2025, averageCOLA: 0 }, { monthStep: 48 });
+      const spouse = optimizeSocialSecurityClaiming({ ...householdInput.spouse, startYear: 2025, averageCOLA: 0 }, { monthStep: 48 });
+
+      couple.strategies.forEach((strategy) => {
+        const own = primary.strategies.find((s) => s.claimingAge.years === strategy.claimingAge.years)!;
+        const other = spouse.strategies.find((s) => s.claimingAge.years === strategy.spouseClaimingAge!.years)!;
+        expect(strategy.expectedValue).toBeCloseTo(own.expectedValue + other.expectedValue, 0);
+        expect(strategy.lifetimeBenefits).toBe(own.lifetimeBenefits + other.lifetimeBenefits);
+      });
+    });
+
+    it('skips claiming ages already passed', () => {
+      const result = optimizeSocialSecurityClaiming({ ...baseInput, birthYear: 1960 }, { monthStep: 12 });
+      expect(result.strategies.map((s) => s.claimingAge.years).sort()).toEqual([65, 66, 67, 68, 69, 70]);
+    });
+
+    it('finds no break-even when the later strategy never catches up', () => {
+      const earlier = [{ year: 2025, annualBenefit: 100 }, { year: 2026, annualBenefit: 100 }];
+      const later = [{ year: 2025, annualBenefit: 0 }, { year: 2026, annualBenefit: 150 }];
+      expect(calculateBreakEvenAge(earlier, later, 1963)).toBeNull();
+      expect(calculateBreakEvenAge(earlier, [...later, { year: 2027, annualBenefit: 0 }], 1963)).toBeNull();
+      expect(calculateBreakEvenAge([...earlier, { year: 2027, annualBenefit: 100 }], [...later, { year: 2027, annualBenefit: 250 }], 1963)).toBeCloseTo(64 + 50 / 150, 10);
+    });
+
+    it('rejects mortality tables with missing ages', () => {
+      const gap = { type: 'table' as const, deathProbabilities: { 62: 0.01, 63: 0.01, 65: 0.02 } };
+      const late = { type: 'table' as const, deathProbabilities: { 65: 0.02, 66: 0.02 } };
+
+      expect(() => optimizeSocialSecurityClaiming(baseInput, { mortality: gap })).toThrow(
+        "Social Security claiming optimizer input validation failed"
+      );
+      expect(() => optimizeSocialSecurityClaiming(baseInput, { mortality: late })).toThrow(
+        "Social Security claiming optimizer input validation failed"
+      );
+      expect(() => optimizeSocialSecurityHouseholdClaiming(householdInput, { monthStep: 48, spouseMortality: late })).toThrow(
+        "Social Security claiming optimizer input validation failed"
+      );
+    });
+
+    it('rejects invalid options and workers past 70', () => {
+      expect(() => optimizeSocialSecurityClaiming(baseInput, { monthStep: 0 })).toThrow(
+        "Social Security claiming optimizer input validation failed"
+      );
+      expect(() => optimizeSocialSecurityClaiming({ ...baseInput, birthYear: 1950 })).toThrow(
+        "Social Security claiming optimizer input validation failed"
+      );
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculatePrimaryInsuranceAmount,
+  calculateSocialSecurityBenefitProjectionWithBreakdown,
+} from '../src/socialSecurity/benefit';
+import {
+  AVERAGE_WAGE_INDEX,
+  SOCIAL_SECURITY_PARAMETERS,
+  TAXABLE_MAXIMUM,
+  getAverageWageIndex,
+  getBendPoints,
+  getCostOfLivingAdjustment,
+  getEarningsTestExemptAmounts,
+  getTaxableMaximum,
+  validateSocialSecurityParameters,
+  type SocialSecurityParameters,
+} from '../src/socialSecurity/parameters';
+
+const baseInput = {
+  startYear: 2025,
+  birthYear: 1960,
+  claimingAge: 67,
+  averageIncome: 60_000,
+  averageCOLA: 2,
+  lifeExpectancyAge: 85,
+};
+
+// Small table where every value is easy to follow
+const customParameters: SocialSecurityParameters = {
+  version: 'test',
+  piaFactors: [0.9, 0.32, 0.15],
+  projection: { wageGrowthRate: 10 },
+  years: [
+    { year: 2020, averageWageIndex: 50000, taxableMaximum: 100000, bendPoints: [1000, 6000], earningsTestExempt: [12000, 36000] },
+  ],
+};
+
+describe('Social Security Parameters', () => {
+  describe('Normal cases', () => {
+    it('returns published values by year', () => {
+      expect(getTaxableMaximum(2025)).toBe(176100);
+      expect(getBendPoints(2025)).toEqual([1226, 7391]);
+      expect(getAverageWageIndex(2024)).toBe(69846.57);
+      expect(getCostOfLivingAdjustment(2022)).toBe(8.7);
+      expect(getEarningsTestExemptAmounts(2025)).toEqual({ underFullRetirementAge: 23400, yearOfFullRetirementAge: 62160 });
+    });
+
+    it('projects future years from assumed wage growth', () => {
+      const custom = { ...customParameters };
+
+      expect(getAverageWageIndex(2022, undefined, { parameters: custom })).toBeCloseTo(60500, 6);
+      // Taxable maximum follows the AWI two years earlier, rounded to $300 (AWI before 2020 is flat)
+      expect(getTaxableMaximum(2024, undefined, { parameters: custom })).toBe(Math.round(100000 * 1.21 / 300) * 300);
+      // Bend points come from the 1979 formula once no published value exists
+      expect(getBendPoints(2022, undefined, { parameters: custom })).toEqual([Math.round(180 * 50000 / 9779.44), Math.round(1085 * 50000 / 9779.44)]);
+      expect(getEarningsTestExemptAmounts(2023, undefined, { parameters: custom }).underFullRetirementAge).toBe(Math.round(12000 * 1.1 / 120) * 120);
+      expect(getCostOfLivingAdjustment(2030)).toBeUndefined();
+    });
+
+    it('uses the parameters of the eligibility year for workers already eligible', () => {
+      const { breakdown } = calculateSocialSecurityBenefitProjectionWithBreakdown({ ...baseInput, birthYear: 1958 });
+      expect(breakdown.bendPoints).toEqual(getBendPoints(2020));
+      expect(breakdown.parametersVersion).toBe(SOCIAL_SECURITY_PARAMETERS.version);
+    });
+
+    it('uses a caller-supplied table', () => {
+      const { breakdown } = calculateSocialSecurityBenefitProjectionWithBreakdown({
+        ...baseInput,
+        startYear: 2020,
+        birthYear: 1970,
+        averageIncome: 120_000,
+        parameters: customParameters,
+      });
+
+      expect(breakdown.parametersVersion).toBe('test');
+      expect(breakdown.bendPoints).toEqual([1000, 6000]);
+      // Capped at the custom 100000 taxable maximum
+      expect(breakdown.aime).toBeCloseTo(100000 / 12, 6);
+      expect(breakdown.pia).toBeCloseTo(1000 * 0.9 + 5000 * 0.32 + (100000 / 12 - 6000) * 0.15, 6);
+      expect(calculatePrimaryInsuranceAmount([{ year: 2015, earnings: 50_000 }], 1960, undefined, { parameters: customParameters }).parametersVersion).toBe('test');
+    });
+
+    it('derives the published series exports from the bundled table', () => {
+      expect(AVERAGE_WAGE_INDEX[2024]).toBe(getAverageWageIndex(2024));
+      expect(AVERAGE_WAGE_INDEX[2025]).toBeUndefined();
+      expect(TAXABLE_MAXIMUM[2026]).toBe(184500);
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('accepts the bundled dataset', () => {
+      expect(validateSocialSecurityParameters(SOCIAL_SECURITY_PARAMETERS)).toEqual([]);
+    });
+
+    it('rejects an invalid custom table', () => {
+      const invalid: SocialSecurityParameters = {
+        version: 'bad',
+        piaFactors: [0.9, 1.5, 0.15],
+        projection: { wageGrowthRate: 3 },
+        years: [{ year: 2020, taxableMaximum: 0, bendPoints: [6000, 1000] }],
+      };
+
+      expect(validateSocialSecurityParameters(invalid)).toHaveLength(4);
+      expect(() => calculateSocialSecurityBenefitProjectionWithBreakdown({ ...baseInput, parameters: invalid })).toThrow(
+        "Social Security Benefits input validation failed"
+      );
+    });
+
+    it('uses the earliest value for years before the table', () => {
+      expect(getAverageWageIndex(1940)).toBe(2799.16);
+      expect(getTaxableMaximum(1940)).toBe(3600);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  solveEarliestWithdrawStartAge,
+  solveMaxWithdrawRate,
+  solveRequiredContribution,
+} from '../src/retirement/solvers';
+import { calculateRetirementSavingsProjectionWithOverrides } from '../src/retirement/savings';
+
+describe('Retirement Savings Solvers', () => {
+  const input = {
+    startYear: 2025,
+    birthYear: 1985,
+    initialBalance: 50_000,
+    initialContribution: 10_000,
+    estimatedYield: 5,
+    estimatedWithdrawRate: 4,
+    contributionIncreaseRate: 0,
+    withdrawStartAge: 65,
+    lifeExpectancyAge: 95,
+  };
+
+  const minWithdrawingBalance = (rows: { age: number; endingBalance: number }[], startAge: number) =>
+    Math.min(...rows.filter(r => r.age >= startAge).map(r => r.endingBalance));
+
+  describe('Normal cases', () => {
+    it('should find the smallest contribution that keeps the balance above the target', () => {
+      const { value, projection } = solveRequiredContribution(input, { targetEndingBalance: 1_000_000 });
+
+      expect(value).not.toBeNull();
+      expect(minWithdrawingBalance(projection, 65)).toBeGreaterThanOrEqual(1_000_000);
+      const less = calculateRetirementSavingsProjectionWithOverrides({ ...input, initialContribution: value! - 1 });
+      expect(minWithdrawingBalance(less, 65)).toBeLessThan(1_000_000);
+    });
+
+    it('should find the maximum withdraw rate that preserves the balance', () => {
+      const { value, projection } = solveMaxWithdrawRate(
+        { ...input, birthYear: 1960, initialBalance: 1_000_000, initialContribution: 0 },
+        { targetEndingBalance: 1_000_000 }
+      );
+
+      // Withdrawing more than the 5% yield erodes the balance
+      expect(value).toBeCloseTo(5, 3);
+      expect(minWithdrawingBalance(projection, 65)).toBeGreaterThanOrEqual(1_000_000);
+    });
+
+    it('should find the earliest withdraw start age', () => {
+      const target = { targetEndingBalance: 1_500_000 };
+      const { value, projection } = solveEarliestWithdrawStartAge(input, target);
+
+      expect(value).not.toBeNull();
+      expect(minWithdrawingBalance(projection, value!)).toBeGreaterThanOrEqual(1_500_000);
+      const earlier = calculateRetirementSavingsProjectionWithOverrides({ ...input, withdrawStartAge: value! - 1 });
+      expect(minWithdrawingBalance(earlier, value! - 1)).toBeLessThan(1_500_000);
+    });
+
+    it('should work with fixed real withdrawals that can deplete the balance', () => {
+      const { value, projection } = solveMaxWithdrawRate({
+        ...input,
+        birthYear: 1960,
+        initialBalance: 1_000_000,
+        initialContribution: 0,
+        withdrawalStrategy: { type: 'fixedReal', inflationRate: 3 },
+      });
+
+      expect(value).toBeGreaterThan(4);
+      expect(value).toBeLessThan(6);
+      expect(projection.at(-1)!.annualWithdraw / projection.at(-1)!.beginningBalance).toBeCloseTo(1, 2);
+      expect(projection.every(r => r.withdrawalShortfall === 0)).toBe(true);
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('should return zero when no contribution is needed', () => {
+      const { value } = solveRequiredContribution(input, { targetEndingBalance: 0 });
+
+      expect(value).toBe(0);
+    });
+
+    it('should return null when no withdraw start age meets the target', () => {
+      const { value, projection } = solveEarliestWithdrawStartAge(input, { targetEndingBalance: 1e12 });
+
+      expect(value).toBeNull();
+      expect(projection).toHaveLength(56);
+    });
+
+    it('should reject a fixed percent withdrawal without a positive target', () => {
+      expect(() => solveMaxWithdrawRate(input)).toThrow("Max Withdraw Rate input validation failed");
+      expect(() => solveMaxWithdrawRate({ ...input, withdrawalStrategy: { type: 'vpw' } }, { targetEndingBalance: 1 })).toThrow(
+        "Max Withdraw Rate input validation failed"
+      );
+      expect(solveMaxWithdrawRate(input, { targetEndingBalance: 1 }).value).toBeLessThan(100);
+    });
+
+    it('should return null when even no withdrawals miss the target', () => {
+      const { value } = solveMaxWithdrawRate({ ...input, initialContribution: 0 }, { targetEndingBalance: 1e9 });
+
+      expect(value).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { calculateTaxBucketSavingsProjection } from '../src/retirement/taxBuckets';
+import { calculateFederalIncomeTax } from '../src/retirement/federalTax';
+
+describe('Tax Bucket Savings Projection', () => {
+  const input = {
+    startYear: 2025,
+    birthYear: 1960,
+    estimatedYield: 5,
+    estimatedWithdrawRate: 4,
+    contributionIncreaseRate: 0,
+    withdrawStartAge: 65,
+    lifeExpectancyAge: 95,
+    traditional: { balance: 600_000, annualContribution: 0 },
+    roth: { balance: 200_000, annualContribution: 0 },
+    taxable: { balance: 200_000, annualContribution: 0, costBasis: 100_000 },
+    withdrawalOrder: 'conventional' as const,
+    filingStatus: 'single' as const,
+  };
+
+  describe('Normal cases', () => {
+    it('should compute 2025 federal tax with gains stacked on ordinary income', () => {
+      // 60,000 ordinary - 15,750 deduction = 44,250 taxable
+      const tax = calculateFederalIncomeTax(60_000, 10_000, 'single');
+      expect(tax.ordinaryTax).toBeCloseTo(1_192.5 + (44_250 - 11_925) * 0.12, 6);
+      // 4,100 of the gains fit in the 0% bracket, the rest at 15%
+      expect(tax.capitalGainsTax).toBeCloseTo((54_250 - 48_350) * 0.15, 6);
+    });
+
+    it('should draw taxable first in conventional order and tax only the gains', () => {
+      const first = calculateTaxBucketSavingsProjection(input)[0]!;
+
+      expect(first.grossWithdrawal).toBeCloseTo(40_000, 6);
+      expect(first.taxableWithdrawal).toBeCloseTo(40_000, 6);
+      expect(first.capitalGains).toBeCloseTo(20_000, 6);
+      // Gains are covered by the standard deduction and the 0% bracket
+      expect(first.estimatedTax).toBe(0);
+      expect(first.afterTaxSpending).toBeCloseTo(40_000, 6);
+      expect(first.taxableCostBasis).toBeCloseTo(80_000, 6);
+      expect(first.taxableBalance).toBeCloseTo(170_000, 6);
+    });
+
+    it('should draw pro rata in proportional order', () => {
+      const first = calculateTaxBucketSavingsProjection({ ...input, withdrawalOrder: 'proportional' })[0]!;
+
+      expect(first.traditionalWithdrawal).toBeCloseTo(24_000, 6);
+      expect(first.rothWithdrawal).toBeCloseTo(8_000, 6);
+      expect(first.taxableWithdrawal).toBeCloseTo(8_000, 6);
+    });
+
+    it('should fill the bracket with traditional withdrawals first', () => {
+      const first = calculateTaxBucketSavingsProjection({ ...input, withdrawalOrder: 'fillBracket' })[0]!;
+
+      expect(first.traditionalWithdrawal).toBeCloseTo(40_000, 6);
+      expect(first.estimatedTax).toBeCloseTo(1_192.5 + (24_250 - 11_925) * 0.12, 6);
+      expect(first.afterTaxSpending).toBeCloseTo(40_000 - first.estimatedTax, 6);
+    });
+
+    it('should leave room for other income when filling the bracket', () => {
+      const first = calculateTaxBucketSavingsProjection({
+        ...input,
+        withdrawalOrder: 'fillBracket',
+        otherOrdinaryIncome: 40_000,
+      })[0]!;
+
+      // 12% bracket tops out at 48,475 + 15,750 deduction
+      expect(first.traditionalWithdrawal).toBeCloseTo(64_225 - 40_000, 6);
+      expect(first.taxableWithdrawal).toBeCloseTo(40_000 - 24_225, 6);
+      expect(first.rothWithdrawal).toBe(0);
+      const ordinary = (48_475 - 11_925) * 0.12 - (24_250 - 11_925) * 0.12;
+      expect(first.estimatedTax).toBeCloseTo(ordinary + first.capitalGains * 0.15, 6);
+    });
+
+    it('should grow contributions and cost basis before withdrawals start', () => {
+      const rows = calculateTaxBucketSavingsProjection({
+        ...input,
+        birthYear: 1980,
+        traditional: { balance: 0, annualContribution: 10_000 },
+        roth: { balance: 0, annualContribution: 5_000 },
+        taxable: { balance: 0, annualContribution: 2_000 },
+        contributionIncreaseRate: 10,
+      });
+
+      expect(rows[0]!.contribution).toBe(17_000);
+      expect(rows[1]!.contribution).toBeCloseTo(18_700, 6);
+      expect(rows[1]!.taxableCostBasis).toBeCloseTo(4_200, 6);
+      expect(rows[1]!.grossWithdrawal).toBe(0);
+      expect(rows[1]!.estimatedTax).toBe(0);
+    });
+
+    it('should take RMDs from the traditional bucket in place of other withdrawals', () => {
+      const first = calculateTaxBucketSavingsProjection({
+        ...input,
+        birthYear: 1950,
+        applyRequiredMinimumDistributions: true,
+      })[0]!;
+
+      expect(first.requiredMinimumDistribution).toBeCloseTo(600_000 / 24.6, 6);
+      expect(first.traditionalWithdrawal).toBeCloseTo(600_000 / 24.6, 6);
+      expect(first.taxableWithdrawal).toBeCloseTo(40_000 - 600_000 / 24.6, 6);
+      expect(first.grossWithdrawal).toBeCloseTo(40_000, 6);
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('should draw from the next bucket when one runs out', () => {
+      const first = calculateTaxBucketSavingsProjection({
+        ...input,
+        estimatedWithdrawRate: 30,
+      })[0]!;
+
+      expect(first.taxableWithdrawal).toBeCloseTo(200_000, 6);
+      expect(first.traditionalWithdrawal).toBeCloseTo(100_000, 6);
+      expect(first.rothWithdrawal).toBe(0);
+    });
+
+    it('should keep every bucket at or above zero and report the shortfall', () => {
+      const lost = calculateTaxBucketSavingsProjection({ ...input, estimatedYield: -100 });
+      lost.forEach((row) => {
+        expect(Math.min(row.traditionalBalance, row.rothBalance, row.taxableBalance)).toBe(0);
+        expect(row.endingBalance).toBe(0);
+      });
+
+      const overdrawn = calculateTaxBucketSavingsProjection({ ...input, estimatedYield: 0, estimatedWithdrawRate: 150 })[0]!;
+      expect(overdrawn.grossWithdrawal).toBeCloseTo(1_000_000, 6);
+      expect(overdrawn.withdrawalShortfall).toBeCloseTo(500_000, 6);
+      expect(overdrawn.endingBalance).toBe(0);
+    });
+
+    it('should index brackets over time', () => {
+      const rows = calculateTaxBucketSavingsProjection({
+        ...input,
+        withdrawalOrder: 'fillBracket',
+        taxBracketIndexRate: 3,
+        estimatedYield: 0,
+        estimatedWithdrawRate: 10,
+      });
+
+      expect(rows[1]!.traditionalWithdrawal).toBeCloseTo(64_225 * 1.03, 6);
+    });
+
+    it('should throw when the fill bracket rate is not a bracket', () => {
+      expect(() => calculateTaxBucketSavingsProjection({ ...input, withdrawalOrder: 'fillBracket', fillBracketRate: 15 }))
+        .toThrow("Tax Bucket Savings input validation failed");
+    });
+  });
+});
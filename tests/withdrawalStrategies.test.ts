@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { calculateRetirementSavingsProjectionWithOverrides } from '../src/retirement/savings';
+
+describe('Withdrawal Strategies', () => {
+  const input = {
+    startYear: 2025,
+    birthYear: 1960,
+    initialBalance: 1_000_000,
+    initialContribution: 0,
+    estimatedYield: 5,
+    estimatedWithdrawRate: 4,
+    contributionIncreaseRate: 0,
+    withdrawStartAge: 65,
+    lifeExpectancyAge: 94,
+  };
+
+  describe('Normal cases', () => {
+    it('should default to a fixed percent of the beginning balance', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides(input);
+
+      expect(rows[0]!.annualWithdraw).toBeCloseTo(40_000, 6);
+      expect(rows[1]!.annualWithdraw).toBeCloseTo(rows[1]!.beginningBalance * 0.04, 6);
+      expect(rows[1]!.withdrawalRule).toBe('fixedPercent');
+    });
+
+    it('should grow a fixed real withdrawal with inflation', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        withdrawalStrategy: { type: 'fixedReal', inflationRate: 3 },
+      });
+
+      expect(rows[0]!.withdrawalRule).toBe('initial');
+      expect(rows[1]!.annualWithdraw).toBeCloseTo(41_200, 6);
+      expect(rows[2]!.annualWithdraw).toBeCloseTo(42_436, 6);
+      expect(rows[2]!.withdrawalRule).toBe('inflationAdjusted');
+    });
+
+    it('should apply Guyton-Klinger guardrails', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        estimatedWithdrawRate: 5,
+        withdrawalStrategy: { type: 'guytonKlinger', inflationRate: 3 },
+        yearOverrides: { 2025: { yieldPercent: -30 }, 2027: { yieldPercent: 40 }, 2028: { yieldPercent: 40 } },
+      });
+
+      // After a 30% loss, 50,000 is 7.6% of 655,000: no raise and a 10% cut
+      expect(rows[1]!.withdrawalRule).toBe('capitalPreservation');
+      expect(rows[1]!.annualWithdraw).toBeCloseTo(45_000, 6);
+
+      const prosperity = rows.find(r => r.withdrawalRule === 'prosperity')!;
+      expect(prosperity).toBeDefined();
+      const previous = rows[rows.indexOf(prosperity) - 1]!;
+      expect(prosperity.annualWithdraw).toBeCloseTo(previous.annualWithdraw * 1.03 * 1.1, 6);
+    });
+
+    it('should skip the inflation raise after a losing year', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        withdrawalStrategy: { type: 'guytonKlinger', inflationRate: 3 },
+        yearOverrides: { 2025: { yieldPercent: -5 } },
+      });
+
+      expect(rows[1]!.withdrawalRule).toBe('inflationSkipped');
+      expect(rows[1]!.annualWithdraw).toBeCloseTo(40_000, 6);
+    });
+
+    it('should keep Vanguard dynamic spending within the ceiling and floor', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        withdrawalStrategy: { type: 'vanguardDynamic', inflationRate: 2 },
+        yearOverrides: { 2025: { yieldPercent: 30 }, 2026: { yieldPercent: -40 } },
+      });
+
+      expect(rows[1]!.withdrawalRule).toBe('ceiling');
+      expect(rows[1]!.annualWithdraw).toBeCloseTo(40_000 * 1.02 * 1.05, 6);
+      expect(rows[2]!.withdrawalRule).toBe('floor');
+      expect(rows[2]!.annualWithdraw).toBeCloseTo(rows[1]!.annualWithdraw * 1.02 * 0.975, 6);
+    });
+
+    it('should withdraw a variable percentage based on remaining years', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        withdrawalStrategy: { type: 'vpw', expectedReturn: 0 },
+      });
+
+      expect(rows[0]!.annualWithdraw).toBeCloseTo(1_000_000 / 30, 6);
+      expect(rows[0]!.withdrawalRule).toBe('vpw');
+      expect(rows.at(-1)!.withdrawRate).toBe(100);
+    });
+
+    it('should withdraw 1/N of the balance over the remaining years', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        estimatedYield: 0,
+        withdrawalStrategy: { type: 'oneOverN' },
+      });
+
+      rows.forEach(r => expect(r.annualWithdraw).toBeCloseTo(1_000_000 / 30, 6));
+      expect(rows.at(-1)!.endingBalance).toBeCloseTo(0, 6);
+    });
+  });
+
+  describe('Boundary cases', () => {
+    it('should let year overrides take precedence and continue from them', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        withdrawalStrategy: { type: 'fixedReal', inflationRate: 3 },
+        yearOverrides: { 2026: { annualWithdraw: 50_000 } },
+      });
+
+      expect(rows[1]!.withdrawalRule).toBe('override');
+      expect(rows[2]!.annualWithdraw).toBeCloseTo(51_500, 6);
+    });
+
+    it('should record when an RMD forces a larger withdrawal', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        birthYear: 1950,
+        withdrawStartAge: 75,
+        lifeExpectancyAge: 90,
+        estimatedWithdrawRate: 2,
+        applyRequiredMinimumDistributions: true,
+      });
+
+      expect(rows[0]!.withdrawalRule).toBe('requiredMinimumDistribution');
+    });
+
+    it('should stop withdrawals at the available balance once the account is depleted', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        initialBalance: 100_000,
+        estimatedYield: 0,
+        withdrawalStrategy: { type: 'fixedReal', inflationRate: 0 },
+        yearOverrides: { 2025: { annualWithdraw: 30_000 } },
+      });
+
+      expect(rows[3]!.annualWithdraw).toBeCloseTo(10_000, 6);
+      expect(rows[3]!.withdrawRate).toBe(100);
+      expect(rows[3]!.withdrawalShortfall).toBeCloseTo(20_000, 6);
+      expect(rows[3]!.endingBalance).toBe(0);
+      rows.slice(4).forEach((row) => {
+        expect(row.annualWithdraw).toBe(0);
+        expect(row.endingBalance).toBe(0);
+      });
+    });
+
+    it('should not record a rule before withdrawals start', () => {
+      const rows = calculateRetirementSavingsProjectionWithOverrides({ ...input, withdrawStartAge: 70 });
+
+      expect(rows[0]!.withdrawalRule).toBeUndefined();
+    });
+
+    it('should throw on an invalid strategy', () => {
+      expect(() => calculateRetirementSavingsProjectionWithOverrides({
+        ...input,
+        withdrawalStrategy: { type: 'fixedReal', inflationRate: -150 },
+      })).toThrow("Retirement Savings input validation failed");
+    });
+  });
+});